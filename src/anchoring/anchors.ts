@@ -0,0 +1,94 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { TextDocument } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { CONTEXT_LINES, createFingerprint, findBestMatch, Fingerprint } from "./fingerprint";
+
+export interface AnchoredBookmark extends Bookmark {
+    anchor?: Fingerprint;
+    lost?: boolean;
+}
+
+function getLines(document: TextDocument): string[] {
+    return document.getText().split(/\r?\n/);
+}
+
+export function isBookmarkLost(bookmark: Bookmark): boolean {
+    return !!(<AnchoredBookmark> bookmark).lost;
+}
+
+export function hasAnchor(bookmark: Bookmark): boolean {
+    return !!(<AnchoredBookmark> bookmark).anchor;
+}
+
+// Should be called whenever the bookmarks are _known_ to be in the right place (on every edit, 
+// so it only reads the lines around each bookmark)
+export function updateAnchors(file: File, document: TextDocument): void {
+    for (const bookmark of file.bookmarks) {
+        if (!isBookmarkDefined(bookmark) || isBookmarkLost(bookmark) || bookmark.line >= document.lineCount) {
+            continue;
+        }
+
+        const start = Math.max(0, bookmark.line - CONTEXT_LINES);
+        const end = Math.min(document.lineCount, bookmark.line + CONTEXT_LINES + 1);
+        const lines: string[] = [];
+        for (let line = start; line < end; line++) {
+            lines.push(document.lineAt(line).text);
+        }
+        (<AnchoredBookmark> bookmark).anchor = createFingerprint(lines, bookmark.line - start);
+    }
+}
+
+export function relocateBookmark(bookmark: Bookmark, lines: string[]): boolean {
+    const anchored = <AnchoredBookmark> bookmark;
+    if (!anchored.anchor) {
+        return false;
+    }
+
+    const line = findBestMatch(lines, anchored.anchor, anchored.line);
+    if (line < 0) {
+        // keep it (flagged) inside the document, so it can still be seen and fixed
+        const changed = !anchored.lost || anchored.line >= lines.length;
+        anchored.lost = true;
+        anchored.line = Math.min(anchored.line, lines.length - 1);
+        return changed;
+    }
+
+    const changed = anchored.line !== line || !!anchored.lost;
+    if (anchored.line !== line) {
+        anchored.column = Math.min(anchored.column, lines[ line ].length);
+    }
+    anchored.line = line;
+    delete anchored.lost;
+    anchored.anchor = createFingerprint(lines, line);
+    return changed;
+}
+
+// whether the `lines` still have every anchored bookmark of the `file` (the ones without anchor can't tell)
+export function matchesAnchors(file: File, lines: string[]): boolean {
+    return file.bookmarks.every(bookmark => {
+        const anchor = (<AnchoredBookmark> bookmark).anchor;
+        return !isBookmarkDefined(bookmark) || isBookmarkLost(bookmark) || !anchor || 
+            findBestMatch(lines, anchor, bookmark.line) >= 0;
+    });
+}
+
+/**
+ * Re-anchors every bookmark of the file to its best match in the document,
+ * after it has been changed outside the editor. Returns whether any bookmark has changed.
+ */
+export function relocateBookmarks(file: File, document: TextDocument): boolean {
+    const lines = getLines(document);
+    let changed = false;
+    for (const bookmark of file.bookmarks) {
+        if (isBookmarkDefined(bookmark)) {
+            changed = relocateBookmark(bookmark, lines) || changed;
+        }
+    }
+    return changed;
+}
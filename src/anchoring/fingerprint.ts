@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+export const CONTEXT_LINES = 2;
+
+// below this, the line is considered _not found_
+export const MIN_SCORE = 0.6;
+
+export interface Fingerprint {
+    text: string;
+    before: string[];
+    after: string[];
+}
+
+export function createFingerprint(lines: string[], line: number): Fingerprint {
+    return {
+        text: lines[ line ].trim(),
+        before: lines.slice(Math.max(0, line - CONTEXT_LINES), line).map(l => l.trim()),
+        after: lines.slice(line + 1, line + 1 + CONTEXT_LINES).map(l => l.trim())
+    };
+}
+
+function bigrams(text: string): Map<string, number> {
+    const result = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+        const bigram = text.substr(i, 2);
+        result.set(bigram, (result.get(bigram) || 0) + 1);
+    }
+    return result;
+}
+
+// Dice coefficient, over the bigrams of both texts
+export function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+
+    const bigramsA = bigrams(a);
+    const bigramsB = bigrams(b);
+    let intersection = 0;
+    bigramsA.forEach((count, bigram) => {
+        intersection += Math.min(count, bigramsB.get(bigram) || 0);
+    });
+    return (2 * intersection) / (a.length - 1 + b.length - 1);
+}
+
+function contextScore(lines: string[], line: number, fingerprint: Fingerprint): number {
+    const candidate = createFingerprint(lines, line);
+    const pairs: [ string, string ][] = [];
+    fingerprint.before.forEach((text, i) => {
+        pairs.push([ text, candidate.before[ candidate.before.length - fingerprint.before.length + i ] || "" ]);
+    });
+    fingerprint.after.forEach((text, i) => pairs.push([ text, candidate.after[ i ] || "" ]));
+
+    if (pairs.length === 0) {
+        return 1;
+    }
+    return pairs.reduce((sum, [ a, b ]) => sum + similarity(a, b), 0) / pairs.length;
+}
+
+/**
+ * Looks for the line that best matches the fingerprint, preferring the ones closer
+ * to `preferredLine`. Returns `-1` if no line is similar enough.
+ */
+export function findBestMatch(lines: string[], fingerprint: Fingerprint, preferredLine: number): number {
+    if (preferredLine >= 0 && preferredLine < lines.length && 
+        lines[ preferredLine ].trim() === fingerprint.text && 
+        contextScore(lines, preferredLine, fingerprint) === 1) {
+        return preferredLine;
+    }
+
+    let bestLine = -1;
+    let bestScore = 0;
+    for (let line = 0; line < lines.length; line++) {
+        const text = lines[ line ].trim();
+
+        // cheap filter, so huge files don't compare every line
+        const lengthRatio = Math.min(text.length, fingerprint.text.length) / Math.max(text.length, fingerprint.text.length);
+        if (fingerprint.text.length > 1 && lengthRatio < MIN_SCORE) {
+            continue;
+        }
+
+        const textScore = similarity(text, fingerprint.text);
+        if (textScore < MIN_SCORE) {
+            continue;
+        }
+
+        // the line itself is what matters most, the context breaks the ties
+        const distancePenalty = Math.abs(line - preferredLine) / Math.max(lines.length, 1) * 0.01;
+        const score = textScore * 0.7 + contextScore(lines, line, fingerprint) * 0.3 - distancePenalty;
+        if (score > bestScore) {
+            bestScore = score;
+            bestLine = line;
+        }
+    }
+
+    return bestLine;
+}
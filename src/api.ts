@@ -0,0 +1,35 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Event, Position, Uri } from "vscode";
+import { Bookmark } from "../vscode-numbered-bookmarks-core/src/bookmark";
+import { Controller } from "../vscode-numbered-bookmarks-core/src/controller";
+
+/**
+ * The API returned by `activate`, so other extensions can query and drive numbered bookmarks.
+ * 
+ * ```ts
+ * const api = vscode.extensions.getExtension<NumberedBookmarksApi>("alefragnani.numbered-bookmarks").exports;
+ * ```
+ */
+export interface NumberedBookmarksApi {
+    /** One per workspace folder (when `saveBookmarksInProject` is on), or a single one */
+    readonly controllers: ReadonlyArray<Controller>;
+
+    /** The slots of a file, indexed by number. Undefined slots are `undefined` */
+    getBookmarks(uri: Uri): Array<Bookmark | undefined>;
+
+    /** Toggles the slot at the position (defaults to the active editor and its cursor). Throws for invalid slots */
+    toggle(slot: number, uri?: Uri, position?: Position): void;
+
+    /** Jumps to the slot, just like the `Jump to Bookmark` command. Rejects for invalid slots */
+    jump(slot: number): Promise<void>;
+
+    /** Clears the bookmarks of a file, or of every file if no `uri` is given */
+    clear(uri?: Uri): void;
+
+    /** Fired whenever any bookmark is added, moved or removed */
+    readonly onDidChangeBookmarks: Event<void>;
+}
@@ -0,0 +1,117 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { BookmarkSetsState, getBookmarkSets, setBookmarkSets } from "../sets/bookmarkSets";
+import { ensureSlots } from "../slots/slots";
+import { cloneFiles, readControllerState, writeControllerState } from "../storage/controllerState";
+
+const STATE_BRANCH_BOOKMARKS = "numberedBookmarks.branchBookmarks";
+
+// Each branch has its own Bookmark Sets: the active set (`files`) and the inactive ones (`sets`)
+interface BranchBookmarks {
+    files: File[];
+    sets: BookmarkSetsState;
+}
+
+// Just like the Bookmark Sets, the bookmarks of the checked out branch live in the `controller`
+// itself (and the sets state), so only the other branches are stored here
+interface BranchBookmarksState {
+    active: string;
+    branches: { [ name: string ]: BranchBookmarks };
+}
+
+function readState(controller: Controller): BranchBookmarksState | undefined {
+    return readControllerState<BranchBookmarksState>(STATE_BRANCH_BOOKMARKS, controller);
+}
+
+function writeState(controller: Controller, state: BranchBookmarksState): void {
+    writeControllerState(STATE_BRANCH_BOOKMARKS, controller, state);
+}
+
+function hasAnyBookmark(files: File[]): boolean {
+    return files.some(file => file.bookmarks.some(bookmark => isBookmarkDefined(bookmark)));
+}
+
+function hasAnySetBookmark(branch: BranchBookmarks): boolean {
+    return hasAnyBookmark(branch.files) || Object.keys(branch.sets.sets).some(name => hasAnyBookmark(branch.sets.sets[ name ]));
+}
+
+export function getActiveBranchName(controller: Controller): string | undefined {
+    const state = readState(controller);
+    return state ? state.active : undefined;
+}
+
+// the other branches that have bookmarks
+export function listBranchNames(controller: Controller): string[] {
+    const state = readState(controller);
+    if (!state) {
+        return [];
+    }
+    return Object.keys(state.branches)
+        .filter(name => hasAnySetBookmark(state.branches[ name ]))
+        .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Stores the current bookmarks (every set) under the previous branch, and brings back the ones of the `branch`.
+ * A branch without bookmarks starts empty, in a set with the same name of the active one.
+ * The first branch ever seen just keeps the current bookmarks. Returns `true` if they were swapped.
+ */
+export function switchToBranch(controller: Controller, branch: string): boolean {
+    const state = readState(controller);
+    if (!state) {
+        writeState(controller, { active: branch, branches: {} });
+        return false;
+    }
+    if (state.active === branch) {
+        return false;
+    }
+
+    const current = getBookmarkSets(controller);
+    const target = state.branches[ branch ] || { files: [], sets: { active: current.active, sets: {} } };
+    state.branches[ state.active ] = { files: cloneFiles(controller.files), sets: current };
+    delete state.branches[ branch ];
+    state.active = branch;
+
+    controller.files.splice(0, controller.files.length, ...cloneFiles(target.files));
+    setBookmarkSets(controller, target.sets);
+    writeState(controller, state);
+    return true;
+}
+
+/**
+ * Copies the bookmarks of another branch (its active set) into the current one. When `replace` is `false`,
+ * the current bookmarks are kept, and only the numbers defined in the other branch are replaced.
+ * Returns the number of copied bookmarks.
+ */
+export function copyFromBranch(controller: Controller, branch: string, replace: boolean): number {
+    const state = readState(controller);
+    const source = state && state.branches[ branch ] ? state.branches[ branch ].files : [];
+
+    if (replace) {
+        controller.files.splice(0, controller.files.length);
+    }
+
+    let count = 0;
+    for (const sourceFile of cloneFiles(source)) {
+        let file = controller.files.find(f => f.path === sourceFile.path);
+        if (!file) {
+            file = { path: sourceFile.path, bookmarks: [] };
+            controller.files.push(file);
+        }
+        ensureSlots(file);
+
+        sourceFile.bookmarks.forEach((bookmark, slot) => {
+            if (isBookmarkDefined(bookmark)) {
+                file.bookmarks[ slot ] = bookmark;
+                count++;
+            }
+        });
+    }
+    return count;
+}
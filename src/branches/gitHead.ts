@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { FileType, Uri, workspace } from "vscode";
+import { readTextFile } from "../files/fileOperations";
+
+const HEAD_REF = /^ref:\s*refs\/heads\/(.+)$/;
+const GIT_DIR = /^gitdir:\s*(.+)$/;
+
+// `/path`, `\path` or `C:\path`
+function resolvePath(base: Uri, target: string): Uri {
+    if (/^([a-zA-Z]:)?[\\/]/.test(target)) {
+        return base.with({ path: target.replace(/\\/g, "/").replace(/^(?=[a-zA-Z]:)/, "/") });
+    }
+    return Uri.joinPath(base, target);
+}
+
+/**
+ * The git folder of the repository that contains the `folder`, which may be a subfolder of it.
+ * Worktrees and submodules have a `.git` file instead, pointing to the real one.
+ */
+async function findGitDir(folder: Uri): Promise<Uri | undefined> {
+    let current = folder;
+    for (;;) {
+        const dotGit = Uri.joinPath(current, ".git");
+        try {
+            const stat = await workspace.fs.stat(dotGit);
+            if (stat.type & FileType.Directory) {
+                return dotGit;
+            }
+            const match = GIT_DIR.exec((await readTextFile(dotGit)).trim());
+            return match ? resolvePath(current, match[ 1 ].trim()) : undefined;
+        } catch (error) {
+            // not here, try the parent folder
+        }
+
+        const parent = Uri.joinPath(current, "..");
+        if (parent.path === current.path) {
+            return undefined;
+        }
+        current = parent;
+    }
+}
+
+export async function findHeadFile(folder: Uri): Promise<Uri | undefined> {
+    const gitDir = await findGitDir(folder);
+    return gitDir ? Uri.joinPath(gitDir, "HEAD") : undefined;
+}
+
+/**
+ * The branch checked out in the repository of the `folder`, read straight from its `HEAD` (no git
+ * process nor network involved). `undefined` when it is not a repository or the HEAD is detached.
+ */
+export async function readBranch(folder: Uri): Promise<string | undefined> {
+    const head = await findHeadFile(folder);
+    if (!head) {
+        return undefined;
+    }
+
+    try {
+        const match = HEAD_REF.exec((await readTextFile(head)).trim());
+        return match ? match[ 1 ] : undefined;
+    } catch (error) {
+        return undefined;
+    }
+}
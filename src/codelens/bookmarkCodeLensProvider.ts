@@ -0,0 +1,52 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { CodeLens, CodeLensProvider, Event, EventEmitter, Range, TextDocument, Uri, workspace } from "vscode";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { getLabel } from "../labels/labels";
+import { getSlotName } from "../slots/slots";
+
+export class BookmarkCodeLensProvider implements CodeLensProvider {
+
+    private _onDidChangeCodeLenses: EventEmitter<void> = new EventEmitter<void>();
+    public readonly onDidChangeCodeLenses: Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor(private getFile: (uri: Uri) => File | undefined) { }
+
+    public refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    public provideCodeLenses(document: TextDocument): CodeLens[] {
+        if (!workspace.getConfiguration("numberedBookmarks").get<boolean>("codeLens.enabled", false)) {
+            return [];
+        }
+
+        const file = this.getFile(document.uri);
+        if (!file) {
+            return [];
+        }
+
+        const uri = document.uri.toString();
+        const lenses: CodeLens[] = [];
+        file.bookmarks.forEach((bookmark, slot) => {
+            if (!isBookmarkDefined(bookmark) || bookmark.line >= document.lineCount) {
+                return;
+            }
+
+            const range = new Range(bookmark.line, 0, bookmark.line, 0);
+            const label = getLabel(bookmark);
+            lenses.push(
+                // just the title, the actions are the ones below
+                new CodeLens(range, { title: `$(bookmark) Bookmark ${getSlotName(slot)}${label ? `: ${label}` : ""}`, command: "" }),
+                new CodeLens(range, { title: "Jump", command: "numberedBookmarks.jumpToBookmark", arguments: [ slot, uri ] }),
+                new CodeLens(range, { title: "Move", command: "numberedBookmarks.moveBookmark", arguments: [ slot, uri ] }),
+                new CodeLens(range, { title: "Clear", command: "numberedBookmarks.clearBookmark", arguments: [ slot, uri ] })
+            );
+        });
+        return lenses;
+    }
+}
@@ -3,52 +3,26 @@
 *  Licensed under the MIT License. See License.md in the project root for license information.
 *--------------------------------------------------------------------------------------------*/
 
-import fs = require("fs");
-import { OverviewRulerLane, Range, TextEditor, TextEditorDecorationType, ThemeColor, window, workspace } from "vscode";
+import { OverviewRulerLane, Range, TextEditor, TextEditorDecorationType, ThemeColor, Uri, window } from "vscode";
 import { createLineDecoration } from "vscode-ext-decoration";
-import { MAX_BOOKMARKS, NO_BOOKMARK_DEFINED } from "../vscode-numbered-bookmarks-core/src/constants";
-import { Container } from "../vscode-numbered-bookmarks-core/src/container";
+import { NO_BOOKMARK_DEFINED } from "../vscode-numbered-bookmarks-core/src/constants";
 import { File } from "../vscode-numbered-bookmarks-core/src/file";
-import { clearBookmarks } from "../vscode-numbered-bookmarks-core/src/operations";
+import { isBookmarkDefined } from "../vscode-numbered-bookmarks-core/src/operations";
+import { hasAnchor, relocateBookmark } from "./anchoring/anchors";
+import { getSelectionRanges } from "./selections/selectionBookmarks";
+import { clearSlots, ensureSlots, getSlotCount } from "./slots/slots";
 
-const STATE_SVG_VERSION = "numberedBookmarksSvgVersion";
+// Need to udpate every time the icons are changed
+export function updateBookmarkDecorationType(bookmarkDecorationType: TextEditorDecorationType[], icons: Uri[]) {
 
-const getFillColor = (): string => {
-    const config = workspace
-      .getConfiguration("numberedBookmarks")
-      .inspect("gutterIconFillColor");
+    // the number of slots may have been reduced
+    bookmarkDecorationType.splice(getSlotCount()).forEach(decorationType => decorationType.dispose());
     
-    return <string> (config.globalValue ? config.globalValue : config.defaultValue);
-  };
-  
-const getNumberColor = (): string => {
-    const config = workspace
-      .getConfiguration("numberedBookmarks")
-      .inspect("gutterIconNumberColor");
-      
-    return <string> (config.globalValue ? config.globalValue : config.defaultValue);
-};
-
-function getCurrentSvgVersion(): number {
-    return parseInt(Container.context.globalState.get(STATE_SVG_VERSION, "0"), 10);
-}
-
-export function updateSvgVersion(): void {
-    Container.context.globalState.update(
-        STATE_SVG_VERSION, 
-        getCurrentSvgVersion() + 1
-    );
-}
-
-// Need to udpate every time the color is changed
-export function updateBookmarkDecorationType(bookmarkDecorationType: TextEditorDecorationType[]) {
-    const v = getCurrentSvgVersion();
-    
-    for (let index = 0; index < MAX_BOOKMARKS; index++) {
+    for (let index = 0; index < getSlotCount(); index++) {
         if (undefined !== bookmarkDecorationType[ index ]) {
             bookmarkDecorationType[ index ].dispose();
         }
-        const gutterIconPath: string = Container.context.asAbsolutePath(`images/bookmark${index}-${v}.svg`);   
+        const gutterIconPath = icons[ index ];
 
         const overviewRulerColor = new ThemeColor('numberedBookmarks.overviewRuler');            
         const lineBackground = new ThemeColor('numberedBookmarks.lineBackground');
@@ -60,66 +34,52 @@ export function updateBookmarkDecorationType(bookmarkDecorationType: TextEditorD
     }
 }  
 
-// The only way to update the decorations after changing the color is to create a new file
-export function updateBookmarkSvg(triggerUpdateDecorations) {  
-    const v = getCurrentSvgVersion();
-    
-    if (fs.existsSync(Container.context.asAbsolutePath(`images/bookmark1-${v}.svg`))) {
-        return;
-    }
-    
-    const gutterIconFillColor = getFillColor();
-    const gutterIconNumberColor = getNumberColor();
-    const content = fs.readFileSync(Container.context.asAbsolutePath("images/bookmark.svg"), "utf8");
-    
-    for (let i = 0; i <= 9; i++) {
-        const svgContent = content
-            .replace("{{gutterIconFillColor}}", gutterIconFillColor)
-            .replace("{{gutterIconNumberColor}}", gutterIconNumberColor)
-            .replace("{{number}}", i.toString());
-            
-        try {    
-            fs.writeFileSync(Container.context.asAbsolutePath(`images/bookmark${i}-${v}.svg`), svgContent, {encoding: "utf8"}); 
-        } catch (err) {
-            window.showErrorMessage(`Can't write to ${err.path}`);            
-        }
-        
-        const bookmarkPath = Container.context.asAbsolutePath(`images/bookmark${i}-${v - 1}.svg`);        
-        if (fs.existsSync(bookmarkPath)) {
-            fs.unlinkSync(bookmarkPath);
-        }
-    }   
-
-    triggerUpdateDecorations(); 
+// Saved selections are highlighted as they were, not as whole lines
+export function createSelectionDecorationType(): TextEditorDecorationType {
+    return window.createTextEditorDecorationType({
+        backgroundColor: new ThemeColor("numberedBookmarks.selectionBackground")
+    });
 }
 
 export function updateDecorationsInActiveEditor(activeEditor: TextEditor, activeBookmark: File,
-    getDecoration) {
+    getDecoration, selectionDecorationType?: TextEditorDecorationType): boolean {
     
     if (!activeEditor) {
-        return;
+        return false;
     }
 
     if (!activeBookmark) {
-        return;
+        return false;
     }
 
+    ensureSlots(activeBookmark);
+
     let books: Range[] = [];
+    const selections: Range[] = [];
+    let invalidated = false;
     // Remove all bookmarks if active file is empty
     if (activeEditor.document.lineCount === 1 && activeEditor.document.lineAt(0).text === "") {
-        clearBookmarks(activeBookmark);
+        invalidated = activeBookmark.bookmarks.some(bookmark => isBookmarkDefined(bookmark));
+        clearSlots(activeBookmark);
     } else {
         const invalids = [];
-        for (let index = 0; index < MAX_BOOKMARKS; index++) {
+        for (let index = 0; index < getSlotCount(); index++) {
             books = [];
             if (activeBookmark.bookmarks[ index ].line < 0) {
                 activeEditor.setDecorations(getDecoration(index), books);
             } else {
                 const element = activeBookmark.bookmarks[ index ];
+
+                // out of range, but it knows its contents, so it can be found again (or flagged)
+                if (element.line >= activeEditor.document.lineCount && hasAnchor(element)) {
+                    relocateBookmark(element, activeEditor.document.getText().split(/\r?\n/));
+                }
+
                 if (element.line < activeEditor.document.lineCount) {
                     const decoration = new Range(element.line, 0, element.line, 0);
                     books.push(decoration);
                     activeEditor.setDecorations(getDecoration(index), books);
+                    selections.push(...getSelectionRanges(element, activeEditor));
                 } else {
                     invalids.push(index);
                 }
@@ -127,10 +87,16 @@ export function updateDecorationsInActiveEditor(activeEditor: TextEditor, active
         }
 
         if (invalids.length > 0) {
+            invalidated = true;
             // tslint:disable-next-line:prefer-for-of
             for (let indexI = 0; indexI < invalids.length; indexI++) {
                 activeBookmark.bookmarks[ invalids[ indexI ] ] = NO_BOOKMARK_DEFINED;
             }
         }
     }
+
+    if (selectionDecorationType) {
+        activeEditor.setDecorations(selectionDecorationType, selections);
+    }
+    return invalidated;
 }
\ No newline at end of file
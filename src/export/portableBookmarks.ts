@@ -0,0 +1,235 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Uri, workspace } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { AnchoredBookmark, relocateBookmark } from "../anchoring/anchors";
+import { addDocument, getFileUri } from "../files/documentIdentity";
+import { getRelativeUriPath } from "../files/fileOperations";
+import { getLabel, getNote, LabeledBookmark } from "../labels/labels";
+import { clearSlots, ensureSlots, getSlotCount, getSlotName } from "../slots/slots";
+
+export const PORTABLE_VERSION = 1;
+
+export interface PortableBookmark {
+    slot: number;
+    line: number;
+    column: number;
+    text?: string;
+    label?: string;
+    note?: string;
+}
+
+// `path` is relative to the folder. Files outside any folder use `uri` instead
+export interface PortableFile {
+    path?: string;
+    uri?: string;
+    bookmarks: PortableBookmark[];
+}
+
+export interface PortableFolder {
+    name?: string;
+    files: PortableFile[];
+}
+
+export interface PortableDocument {
+    version: number;
+    folders: PortableFolder[];
+}
+
+export enum ImportMode {
+    Merge,
+    Replace
+}
+
+async function readLines(uri: Uri): Promise<string[] | undefined> {
+    try {
+        const document = await workspace.openTextDocument(uri);
+        return document.getText().split(/\r?\n/);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+function isInsideFolder(controller: Controller, uri: Uri): boolean {
+    return controller.workspaceFolder && 
+        workspace.getWorkspaceFolder(uri)?.uri.toString() === controller.workspaceFolder.uri.toString();
+}
+
+export async function exportBookmarks(controllers: Controller[], includeLineText: boolean): Promise<PortableDocument> {
+    const folders: PortableFolder[] = [];
+    for (const controller of controllers) {
+        const files: PortableFile[] = [];
+        for (const file of controller.files) {
+            if (!file.bookmarks.some(bookmark => isBookmarkDefined(bookmark))) {
+                continue;
+            }
+
+            const uri = getFileUri(controller, file);
+            const lines = includeLineText ? await readLines(uri) : undefined;
+            const bookmarks: PortableBookmark[] = [];
+            file.bookmarks.forEach((bookmark, slot) => {
+                if (!isBookmarkDefined(bookmark)) {
+                    return;
+                }
+                bookmarks.push({
+                    slot,
+                    line: bookmark.line,
+                    column: bookmark.column,
+                    text: lines && bookmark.line < lines.length ? lines[ bookmark.line ].trim() : undefined,
+                    label: getLabel(bookmark),
+                    note: getNote(bookmark)
+                });
+            });
+
+            files.push(isInsideFolder(controller, uri)
+                ? { path: getRelativeUriPath(controller.workspaceFolder.uri, uri), bookmarks }
+                : { uri: uri.toString(), bookmarks });
+        }
+        folders.push({ name: controller.workspaceFolder?.name, files });
+    }
+
+    return { version: PORTABLE_VERSION, folders };
+}
+
+function isObject(value: unknown): boolean {
+    return typeof value === "object" && value !== null;
+}
+
+function isOptionalString(value: unknown): boolean {
+    return value === undefined || typeof value === "string";
+}
+
+function isPosition(value: unknown): boolean {
+    return typeof value === "number" && Number.isInteger(value) && value >= 0;
+}
+
+function isPortableBookmark(object: unknown): object is PortableBookmark {
+    if (!isObject(object)) {
+        return false;
+    }
+    const bookmark = <PortableBookmark> object;
+    return typeof bookmark.slot === "number" && isPosition(bookmark.line) && isPosition(bookmark.column) && 
+        isOptionalString(bookmark.text) && isOptionalString(bookmark.label) && isOptionalString(bookmark.note);
+}
+
+function isPortableFile(object: unknown): object is PortableFile {
+    if (!isObject(object)) {
+        return false;
+    }
+    const file = <PortableFile> object;
+    return (typeof file.path === "string" || typeof file.uri === "string") && 
+        Array.isArray(file.bookmarks) && file.bookmarks.every(bookmark => isPortableBookmark(bookmark));
+}
+
+function isPortableFolder(object: unknown): object is PortableFolder {
+    if (!isObject(object)) {
+        return false;
+    }
+    const folder = <PortableFolder> object;
+    return isOptionalString(folder.name) && Array.isArray(folder.files) && folder.files.every(file => isPortableFile(file));
+}
+
+// the whole document is checked up front, so a broken file never leaves the bookmarks half imported
+export function isPortableDocument(object: unknown): object is PortableDocument {
+    if (!isObject(object)) {
+        return false;
+    }
+    const portable = <PortableDocument> object;
+    return typeof portable.version === "number" && 
+        Array.isArray(portable.folders) && portable.folders.every(folder => isPortableFolder(folder));
+}
+
+// numbers beyond the `numberedBookmarks.slotCount` setting (or made up) are left out
+function isValidSlot(slot: number, slotCount: number): boolean {
+    return Number.isInteger(slot) && slot >= 0 && slot < slotCount;
+}
+
+function findController(controllers: Controller[], folder: PortableFolder, fallback: Controller): Controller {
+    return controllers.find(ctrl => ctrl.workspaceFolder && ctrl.workspaceFolder.name === folder.name) || fallback;
+}
+
+/**
+ * Imports the bookmarks into the controllers (matched by folder name). Bookmarks with line text
+ * are re-anchored to the best matching line. Returns how many bookmarks were imported.
+ */
+export async function importBookmarks(controllers: Controller[], activeController: Controller, 
+    portable: PortableDocument, mode: ImportMode): Promise<number> {
+    
+    if (portable.version > PORTABLE_VERSION) {
+        throw new Error(`Unsupported version ${portable.version}. Update the extension to import this file`);
+    }
+
+    if (mode === ImportMode.Replace) {
+        for (const controller of new Set(portable.folders.map(folder => findController(controllers, folder, activeController)))) {
+            controller.files.forEach(file => clearSlots(file));
+        }
+    }
+
+    const slotCount = getSlotCount();
+    let count = 0;
+    for (const folder of portable.folders) {
+        const controller = findController(controllers, folder, activeController);
+        for (const portableFile of folder.files) {
+            // relative paths can't be resolved without a folder
+            if (!portableFile.uri && !controller.workspaceFolder) {
+                continue;
+            }
+
+            const uri = portableFile.uri 
+                ? Uri.parse(portableFile.uri) 
+                : Uri.joinPath(controller.workspaceFolder.uri, portableFile.path);
+            const portableBookmarks = portableFile.bookmarks.filter(bookmark => isValidSlot(bookmark.slot, slotCount));
+            if (portableBookmarks.length === 0) {
+                continue;
+            }
+            const lines = portableBookmarks.some(bookmark => bookmark.text !== undefined) ? await readLines(uri) : undefined;
+
+            const file = addDocument(controller, uri);
+            ensureSlots(file, Math.max(...portableBookmarks.map(bookmark => bookmark.slot + 1), 0));
+            for (const portableBookmark of portableBookmarks) {
+                const bookmark: AnchoredBookmark & LabeledBookmark = {
+                    line: portableBookmark.line,
+                    column: portableBookmark.column,
+                    label: portableBookmark.label,
+                    note: portableBookmark.note
+                };
+                if (lines && portableBookmark.text !== undefined) {
+                    bookmark.anchor = { text: portableBookmark.text, before: [], after: [] };
+                    relocateBookmark(bookmark, lines);
+                }
+                file.bookmarks[ portableBookmark.slot ] = bookmark;
+                count++;
+            }
+        }
+    }
+    return count;
+}
+
+export function exportBookmarksAsMarkdown(portable: PortableDocument): string {
+    const lines: string[] = [ "# Numbered Bookmarks", "" ];
+    for (const folder of portable.folders) {
+        if (folder.files.length === 0) {
+            continue;
+        }
+        if (portable.folders.length > 1) {
+            lines.push(`## ${folder.name || "No Folder"}`, "");
+        }
+
+        for (const file of folder.files) {
+            const filePath = file.path || Uri.parse(file.uri).fsPath;
+            for (const bookmark of file.bookmarks) {
+                const link = file.path 
+                    ? `[${filePath}:${bookmark.line + 1}](${encodeURI(filePath)}#L${bookmark.line + 1})`
+                    : `\`${filePath}:${bookmark.line + 1}\``;
+                const title = bookmark.label || bookmark.text;
+                lines.push(`- **${getSlotName(bookmark.slot)}** ${link}${title ? ` - ${title}` : ""}`);
+            }
+        }
+        lines.push("");
+    }
+    return lines.join("\n");
+}
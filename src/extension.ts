@@ -9,19 +9,45 @@ import { TextDocument, Uri } from "vscode";
 import { Bookmark, BookmarkQuickPickItem } from "../vscode-numbered-bookmarks-core/src/bookmark";
 import { NO_BOOKMARK_DEFINED } from "../vscode-numbered-bookmarks-core/src/constants";
 import { Controller } from "../vscode-numbered-bookmarks-core/src/controller";
-import { clearBookmarks, hasBookmarks, indexOfBookmark, isBookmarkDefined, listBookmarks } from "../vscode-numbered-bookmarks-core/src/operations";
+import { hasBookmarks, indexOfBookmark, isBookmarkDefined, listBookmarks } from "../vscode-numbered-bookmarks-core/src/operations";
 import { revealLine, revealPosition, previewPositionInDocument, revealPositionInDocument } from "../vscode-numbered-bookmarks-core/src/utils/reveal";
 import { Sticky } from "../vscode-numbered-bookmarks-core/src/sticky";
+import { stickyBookmarksInDocument } from "./sticky/documentSticky";
 import { loadBookmarks, saveBookmarks } from "../vscode-numbered-bookmarks-core/src/workspaceState";
 import { Container } from "../vscode-numbered-bookmarks-core/src/container";
 import { registerWhatsNew } from "./whats-new/commands";
 import { codicons } from "vscode-ext-codicons";
 import { getRelativePath, parsePosition } from "../vscode-numbered-bookmarks-core/src/utils/fs";
 import { File } from "../vscode-numbered-bookmarks-core/src/file";
-import { updateBookmarkDecorationType, updateBookmarkSvg, updateDecorationsInActiveEditor, updateSvgVersion } from "./decoration";
+import { createSelectionDecorationType, updateBookmarkDecorationType, updateDecorationsInActiveEditor } from "./decoration";
+import { affectsBookmarkIcons, removeLegacyIcons, updateBookmarkIcons } from "./icons/gutterIcons";
 import { pickController } from "../vscode-numbered-bookmarks-core/src/quickpick/controllerPicker";
-
-export async function activate(context: vscode.ExtensionContext) {
+import { pickFromAllFolders } from "./quickpick/allFoldersPicker";
+import { BookmarkNode, BookmarkProvider } from "./sidebar/bookmarkProvider";
+import { copyFromBranch, getActiveBranchName, listBranchNames, switchToBranch } from "./branches/branchBookmarks";
+import { findHeadFile, readBranch } from "./branches/gitHead";
+import { createSet, deleteSet, duplicateSet, getActiveSetName, listSetNames, renameSet, setBookmarkSets, switchToSet } from "./sets/bookmarkSets";
+import { askBookmarkSetName, pickBookmarkSet } from "./sets/setPicker";
+import { askLabelAndNote, getLabel } from "./labels/labels";
+import { AnchoredBookmark, matchesAnchors, relocateBookmarks, updateAnchors } from "./anchoring/anchors";
+import { getCurrentLocation, isSameLocation, JumpHistory } from "./history/jumpHistory";
+import { BookmarkChange, BookmarkJournal, JournalSnapshot } from "./history/bookmarkJournal";
+import { exportBookmarks, exportBookmarksAsMarkdown, ImportMode, importBookmarks, isPortableDocument } from "./export/portableBookmarks";
+import { NumberedBookmarksApi } from "./api";
+import { loadFolderBookmarks, needsMigration, saveFolderBookmarks, splitByFolder } from "./storage/folderState";
+import { isSavingProjectBookmarks, loadProjectBookmarks, PROJECT_FILE, ProjectBookmarks, saveProjectBookmarks, whenProjectBookmarksSaved } from "./storage/projectFile";
+import { applySnapshot, BookmarksSnapshot, isSameSnapshot, mergeSnapshots, takeSnapshot } from "./storage/projectSync";
+import { BookmarkHoverProvider } from "./hover/bookmarkHoverProvider";
+import { BookmarkCodeLensProvider } from "./codelens/bookmarkCodeLensProvider";
+import { BookmarkStatusBar, getSlotGlyph, isSlotDefinedInFile } from "./statusBar/bookmarkStatusBar";
+import { clearSlots, compactSlots, ensureControllerSlots, ensureSlots, getSlotName, getSlotsInKeyboardOrder, parseSlot, pickSlot, swapSlots } from "./slots/slots";
+import { revealBookmark, revealBookmarkInDocument, saveSelections } from "./selections/selectionBookmarks";
+import { getDocumentFile, getDocumentUri, isSameNotebook, setBookmarkCell, syncDocumentFile, updateCells } from "./notebooks/notebookCells";
+import { Direction, findNextStop, NavigationOrder } from "./navigation/sequentialNavigation";
+import { addDocument, getFileUri, isSameDocument, isUntitled } from "./files/documentIdentity";
+import { ControllerFile, fileExists, findFiles, getBasename, moveFile, readTextFile, rebaseUri, removeFile, writeTextFile } from "./files/fileOperations";
+
+export async function activate(context: vscode.ExtensionContext): Promise<NumberedBookmarksApi> {
 
     Container.context = context;
 
@@ -29,24 +55,45 @@ export async function activate(context: vscode.ExtensionContext) {
 
     let activeController: Controller;
     let controllers: Controller[] = [];
-    let activeEditorCountLine: number;
+    const documentLineCounts = new Map<string, number>();
+    const jumpHistory = new JumpHistory();
+    const bookmarkJournal = new BookmarkJournal();
+    const onDidChangeBookmarks = new vscode.EventEmitter<void>();
+
+    // what the project file had on the last sync (load, save or reload), to tell who changed what
+    const projectFileBases = new Map<Controller, BookmarksSnapshot>();
+    const resolvingConflicts = new Set<Controller>();
+    context.subscriptions.push(onDidChangeBookmarks);
     let timeout = null;    
     let activeEditor = vscode.window.activeTextEditor;
     let activeFile: File;            
     const bookmarkDecorationType: vscode.TextEditorDecorationType[] = [];
+    const selectionDecorationType = createSelectionDecorationType();
+    context.subscriptions.push(selectionDecorationType);
 
     // load pre-saved bookmarks
     await loadWorkspaceState();
+    bookmarkJournal.reset(takeJournalSnapshot());
     
-    updateBookmarkSvg(triggerUpdateDecorations);
-    updateBookmarkDecorationType(bookmarkDecorationType);
+    removeLegacyIcons();
+    updateBookmarkDecorationType(bookmarkDecorationType, await updateBookmarkIcons());
+
+    const bookmarkProvider = new BookmarkProvider(() => controllers);
+    const bookmarkExplorer = vscode.window.createTreeView("numberedBookmarksExplorer", { treeDataProvider: bookmarkProvider });
+
+    const bookmarkStatusBar = new BookmarkStatusBar();
+    context.subscriptions.push(bookmarkStatusBar);
+
+    const bookmarkCodeLensProvider = new BookmarkCodeLensProvider(uri => findFileForDocument(uri));
+    context.subscriptions.push(vscode.languages.registerCodeLensProvider("*", bookmarkCodeLensProvider));
+    context.subscriptions.push(vscode.languages.registerHoverProvider("*", new BookmarkHoverProvider(uri => findFileForDocument(uri))));
+    updateBookmarkSetStatus();
 
     // Connect it to the Editors Events
     if (activeEditor) {
         getActiveController(activeEditor.document);
-        activeController.addFile(activeEditor.document.uri);
-        activeEditorCountLine = activeEditor.document.lineCount;
-        activeFile = activeController.fromUri(activeEditor.document.uri);
+        activeFile = addDocument(activeController, getDocumentUri(activeEditor.document.uri));
+        updateBookmarkSetStatus();
         triggerUpdateDecorations();
     }
 
@@ -60,43 +107,244 @@ export async function activate(context: vscode.ExtensionContext) {
     vscode.window.onDidChangeActiveTextEditor(editor => {
         activeEditor = editor;
         if (editor) {
-            activeEditorCountLine = editor.document.lineCount;
             getActiveController(editor.document);
-            activeController.addFile(editor.document.uri);
-            activeFile = activeController.fromUri(editor.document.uri);
+            activeFile = addDocument(activeController, getDocumentUri(editor.document.uri));
+            updateBookmarkSetStatus();
             
             triggerUpdateDecorations();
         }
     }, null, context.subscriptions);
 
+    // every document (not only the active one) must have its line count tracked, for sticky
+    vscode.workspace.textDocuments.forEach(doc => documentLineCounts.set(doc.uri.toString(), doc.lineCount));
+
+    // saving an Untitled document closes it and opens the new file (in any order), with the same contents. 
+    // Both are paired by their contents, like the files moved outside the editor
+    const pendingUntitled = new Map<string, ControllerFile>();
+    const recentlyOpened = new Map<string, Uri>();
+
+    vscode.workspace.onDidOpenTextDocument(doc => {
+        documentLineCounts.set(doc.uri.toString(), doc.lineCount);
+        relocateBookmarksInDocument(doc);
+
+        if (isUntitled(doc.uri) || !hasUntitledBookmarks()) {
+            return;
+        }
+        const text = doc.getText();
+        const pending = pendingUntitled.get(text);
+        if (pending) {
+            pendingUntitled.delete(text);
+            moveBookmarkedFile(pending, doc.uri);
+            didChangeFiles();
+            return;
+        }
+        recentlyOpened.set(text, doc.uri);
+        setTimeout(() => recentlyOpened.delete(text), 2000);
+    }, null, context.subscriptions);
+
+    vscode.workspace.onDidCloseTextDocument(doc => {
+        documentLineCounts.delete(doc.uri.toString());
+
+        const found = isUntitled(doc.uri) ? findBookmarkedFile(doc.uri) : undefined;
+        if (!found) {
+            return;
+        }
+        const text = doc.getText();
+        const saved = recentlyOpened.get(text);
+        if (saved) {
+            recentlyOpened.delete(text);
+            moveBookmarkedFile(found, saved);
+            didChangeFiles();
+            return;
+        }
+        // not saved in time, so it was closed unsaved (discarded) and its bookmarks are gone too.
+        // Changing its language also closes it, but it is reopened right away with the same URI
+        pendingUntitled.set(text, found);
+        setTimeout(() => {
+            if (pendingUntitled.get(text) !== found) {
+                return;
+            }
+            pendingUntitled.delete(text);
+            if (vscode.workspace.textDocuments.some(document => document.uri.toString() === doc.uri.toString())) {
+                return;
+            }
+            removeFile(found.controller, found.file);
+            didChangeFiles();
+        }, 2000);
+    }, null, context.subscriptions);
+
+    // bookmarks saved in the project may be changed by others (git pull, hand edits, another window)
+    if (vscode.workspace.workspaceFolders && 
+        vscode.workspace.getConfiguration("numberedBookmarks").get("saveBookmarksInProject", false)) {
+        for (const controller of controllers) {
+            projectFileBases.set(controller, takeSnapshot(controller));
+
+            const projectFileWatcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(controller.workspaceFolder, PROJECT_FILE), false, false, true);
+            projectFileWatcher.onDidChange(() => reloadProjectFile(controller), null, context.subscriptions);
+            projectFileWatcher.onDidCreate(() => reloadProjectFile(controller), null, context.subscriptions);
+            context.subscriptions.push(projectFileWatcher);
+        }
+    }
+
+    // bookmarks that follow the checked out branch. The `HEAD` changes on every checkout, 
+    // and is also checked when the window gets the focus back (checkouts made outside)
+    let branchUpdate = Promise.resolve();
+    for (const controller of controllers) {
+        if (controller.workspaceFolder) {
+            // not awaited, looking for the repository must not delay the activation
+            watchHeadFile(controller.workspaceFolder.uri);
+        }
+    }
+    vscode.window.onDidChangeWindowState(state => {
+        if (state.focused) {
+            triggerUpdateBranches();
+        }
+    }, null, context.subscriptions);
+    triggerUpdateBranches();
+
+    vscode.workspace.onDidRenameFiles(event => {
+        for (const { oldUri, newUri } of event.files) {
+            pendingMoves.delete(getBasename(oldUri));
+            for (const found of findFiles(controllers, oldUri)) {
+                const fileUri = getFileUri(found.controller, found.file);
+                moveBookmarkedFile(found, rebaseUri(fileUri, oldUri, newUri));
+            }
+        }
+        didChangeFiles();
+    }, null, context.subscriptions);
+
+    vscode.workspace.onDidDeleteFiles(event => {
+        for (const uri of event.files) {
+            for (const found of findFiles(controllers, uri)) {
+                removeFile(found.controller, found.file);
+            }
+        }
+        didChangeFiles();
+    }, null, context.subscriptions);
+
+    // files changed outside the editor (git pull, branch switch, formatters)
+    const fileWatcher = vscode.workspace.createFileSystemWatcher("**/*", false, false, false);
+
+    // files moved outside the editor are seen as a _delete_ followed by a _create_ with the same name. 
+    // Only an unambiguous pair is a move: a single bookmarked file deleted with that name, whose 
+    // bookmarked lines are in the created one. Unmatched deletes are not purged, because the file may come back (branch switch)
+    const pendingMoves = new Map<string, ControllerFile[]>();
+    fileWatcher.onDidDelete(uri => {
+        const found = findBookmarkedFile(uri);
+        if (!found) {
+            return;
+        }
+        const name = getBasename(uri);
+        pendingMoves.set(name, [ ...(pendingMoves.get(name) || []), found ]);
+        setTimeout(() => {
+            const remaining = (pendingMoves.get(name) || []).filter(pending => pending !== found);
+            if (remaining.length > 0) {
+                pendingMoves.set(name, remaining);
+            } else {
+                pendingMoves.delete(name);
+            }
+        }, 2000);
+    }, null, context.subscriptions);
+    fileWatcher.onDidCreate(async uri => {
+        const name = getBasename(uri);
+        const candidates = pendingMoves.get(name);
+        if (!candidates || candidates.length !== 1) {
+            return;
+        }
+
+        let lines: string[];
+        try {
+            lines = (await readTextFile(uri)).split(/\r?\n/);
+        } catch (error) {
+            return;
+        }
+        // another file with the same name may have been deleted meanwhile
+        if (pendingMoves.get(name) !== candidates || !matchesAnchors(candidates[ 0 ].file, lines)) {
+            return;
+        }
+        pendingMoves.delete(name);
+        moveBookmarkedFile(candidates[ 0 ], uri);
+        didChangeFiles();
+    }, null, context.subscriptions);
+    // open documents are reloaded by the editor itself, so its next (clean) change comes from the disk
+    const changedOnDisk = new Set<string>();
+    fileWatcher.onDidChange(async uri => {
+        if (!findBookmarkedFile(uri)) {
+            return;
+        }
+        const key = uri.toString();
+        if (vscode.workspace.textDocuments.some(doc => doc.uri.toString() === key)) {
+            changedOnDisk.add(key);
+            setTimeout(() => changedOnDisk.delete(key), 2000);
+        }
+        try {
+            relocateBookmarksInDocument(await vscode.workspace.openTextDocument(uri));
+        } catch (error) {
+            // binary or missing files can't be opened, so there is nothing to relocate
+        }
+    }, null, context.subscriptions);
+    context.subscriptions.push(fileWatcher);
+
     vscode.workspace.onDidChangeTextDocument(event => {
-        if (activeEditor && event.document === activeEditor.document) {
-            let updatedBookmark = true;
-            // call sticky function when the activeEditor is changed
-            if (activeFile && activeFile.bookmarks.length > 0) {
-                updatedBookmark = Sticky.stickyBookmarks(event, activeEditorCountLine, 
-                    activeFile, activeEditor);
+        const isActiveDocument = activeEditor && event.document === activeEditor.document;
+        const file: File = isActiveDocument ? activeFile : findBookmarkedFile(event.document.uri)?.file;
+        const documentKey = event.document.uri.toString();
+        const previousLineCount = documentLineCounts.has(documentKey) ? documentLineCounts.get(documentKey) : event.document.lineCount;
+
+        let updatedBookmark = isActiveDocument;
+        // call sticky function on any document that has bookmarks (split editors, refactorings, workspace edits)
+        if (file && file.bookmarks.length > 0) {
+            const documentFile = getDocumentFile(file, event.document);
+            // reloaded from disk (the file watcher said so), so the bookmarks must be found by its contents. 
+            // Just being _clean_ is not enough, undoing back to the saved contents is clean too
+            if (!event.document.isDirty && changedOnDisk.delete(documentKey)) {
+                updatedBookmark = relocateBookmarks(documentFile, event.document);
+            } else {
+                // documents out of any editor (background edits) have their own sticky, that needs no editor
+                const editor = isActiveDocument ? activeEditor : getEditorForDocument(event.document);
+                updatedBookmark = editor
+                    ? Sticky.stickyBookmarks(event, previousLineCount, documentFile, editor)
+                    : stickyBookmarksInDocument(event.contentChanges, documentFile, event.document);
             }
+            updateAnchors(documentFile, event.document);
+            updateCells(documentFile, event.document);
+            syncDocumentFile(file, documentFile, event.document);
+        }
 
-            activeEditorCountLine = event.document.lineCount;
+        documentLineCounts.set(documentKey, event.document.lineCount);
+        if (isActiveDocument) {
             updateDecorations();
+        }
 
-            if (updatedBookmark) {
-                saveWorkspaceState();
-            }
+        if (updatedBookmark) {
+            saveWorkspaceState(false);
         }
     }, null, context.subscriptions);
     
+    // the icons may have different colors for each kind of theme
+    vscode.window.onDidChangeActiveColorTheme(() => updateIcons(), null, context.subscriptions);
+
     vscode.workspace.onDidChangeConfiguration(event => {    
-        if (event.affectsConfiguration("numberedBookmarks.gutterIconFillColor") 
-            || event.affectsConfiguration("numberedBookmarks.gutterIconNumberColor")    
-        ) {
-            updateSvgVersion();
-            updateBookmarkSvg(triggerUpdateDecorations);  
-            updateBookmarkDecorationType(bookmarkDecorationType);      
+        if (affectsBookmarkIcons(section => event.affectsConfiguration(section))) {
+            updateIcons();
+        }
+        if (event.affectsConfiguration("numberedBookmarks.codeLens.enabled")) {
+            bookmarkCodeLensProvider.refresh();
+        }
+        if (event.affectsConfiguration("numberedBookmarks.statusBar.visible")) {
+            updateDecorations();
+        }
+        if (event.affectsConfiguration("numberedBookmarks.saveBookmarksPerBranch")) {
+            triggerUpdateBranches();
         }
     }, null, context.subscriptions);
     
+    async function updateIcons() {
+        updateBookmarkDecorationType(bookmarkDecorationType, await updateBookmarkIcons());
+        triggerUpdateDecorations();
+    }
+
     // Timeout
     function triggerUpdateDecorations() {
         if (timeout) {
@@ -111,67 +359,675 @@ export async function activate(context: vscode.ExtensionContext) {
 
     // Evaluate (prepare the list) and DRAW
     function updateDecorations() {
-        updateDecorationsInActiveEditor(activeEditor, activeFile, getDecoration);
+        // the cells of a notebook are visible side by side, but its bookmarks are in a single file
+        const editors = activeEditor 
+            ? vscode.window.visibleTextEditors.filter(editor => isSameNotebook(editor.document.uri, activeEditor.document.uri)) 
+            : [];
+        let invalidated = false;
+        if (editors.length > 0 && activeFile) {
+            for (const editor of editors) {
+                const documentFile = getDocumentFile(activeFile, editor.document);
+                invalidated = updateDecorationsInActiveEditor(editor, documentFile, getDecoration, selectionDecorationType) || invalidated;
+                syncDocumentFile(activeFile, documentFile, editor.document);
+            }
+        } else {
+            invalidated = updateDecorationsInActiveEditor(activeEditor, activeFile, getDecoration, selectionDecorationType);
+        }
+
+        // bookmarks out of the document were removed, and that can be undone 
+        if (invalidated) {
+            saveWorkspaceState(false);
+        }
+        bookmarkStatusBar.update(activeController, activeEditor ? activeFile : undefined);
     }
     
     // other commands
     for (let i = 0; i <= 9; i++) {
         vscode.commands.registerCommand(
             `numberedBookmarks.toggleBookmark${i}`, 
-            () => toggleBookmark(i, vscode.window.activeTextEditor.selection.active)
+            () => {
+                if (vscode.window.activeTextEditor) {
+                    toggleBookmark(i, vscode.window.activeTextEditor.selection.active, vscode.window.activeTextEditor.selections);
+                }
+            }
         );
         vscode.commands.registerCommand(
             `numberedBookmarks.jumpToBookmark${i}`,
-            () => jumpToBookmark(i)
+            () => recordJump(() => jumpToBookmark(i))
+        );
+        vscode.commands.registerCommand(
+            `numberedBookmarks.labelBookmark${i}`,
+            () => labelBookmark(i)
         );
     }
 
-    vscode.commands.registerCommand("numberedBookmarks.clear", () => {
-        clearBookmarks(activeFile);
-        
-        saveWorkspaceState();
-        updateDecorations();
+    // any slot, including the ones above 9. It can be bound to _chords_ passing the slot as argument
+    vscode.commands.registerCommand("numberedBookmarks.toggleBookmark", async (slot?: number | string) => {
+        if (!vscode.window.activeTextEditor) {
+            return;
+        }
+        const n = slot !== undefined ? parseSlot(slot) : await pickSlot("Select the bookmark to toggle", activeFile);
+        if (n === undefined) {
+            return;
+        }
+        toggleBookmark(n, vscode.window.activeTextEditor.selection.active, vscode.window.activeTextEditor.selections);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.labelBookmark", async (slot?: number | string) => {
+        const n = slot !== undefined ? parseSlot(slot) : await pickSlot("Select the bookmark to label", activeFile);
+        if (n === undefined) {
+            return;
+        }
+        await labelBookmark(n);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.toggleBookmarksAtCursors", () => {
+        if (!vscode.window.activeTextEditor) {
+            return;
+        }
+        toggleBookmarksAtCursors(vscode.window.activeTextEditor);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.selectBookmarkedLines", () => {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return;
+        }
+
+        const bookmarks = activeFile 
+            ? getDocumentFile(activeFile, editor.document).bookmarks.filter(bookmark => isBookmarkDefined(bookmark)) 
+            : [];
+        if (bookmarks.length === 0) {
+            vscode.window.showInformationMessage("No Bookmarks found");
+            return;
+        }
+
+        editor.selections = bookmarks
+            .sort((a, b) => a.line - b.line)
+            .map(bookmark => {
+                const position = editor.document.validatePosition(new vscode.Position(bookmark.line, bookmark.column));
+                return new vscode.Selection(position, position);
+            });
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.jumpToBookmark", async (slot?: number | string, uri?: string) => {
+        const n = slot !== undefined ? parseSlot(slot) : await pickSlot("Select the bookmark to jump to", activeFile);
+        if (n === undefined) {
+            return;
+        }
+
+        // from a code lens, the bookmark of its document, wherever the active one is
+        if (uri) {
+            const target = getFileForCommand(uri);
+            const bookmark = target ? target.file.bookmarks[ n ] : undefined;
+            if (bookmark && isBookmarkDefined(bookmark)) {
+                await recordJump(() => revealBookmarkInDocument(bookmark, Uri.parse(uri)));
+            }
+            return;
+        }
+        await recordJump(() => jumpToBookmark(n));
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.jumpToNext", () => recordJump(() => jumpToNextBookmark("next")));
+    vscode.commands.registerCommand("numberedBookmarks.jumpToPrevious", () => recordJump(() => jumpToNextBookmark("previous")));
+
+    vscode.commands.registerCommand("numberedBookmarks.moveBookmark", async (slot?: number | string, uri?: string) => {
+        const target = getFileForCommand(uri);
+        if (!target) {
+            return;
+        }
+
+        const from = slot !== undefined ? parseSlot(slot) : await pickSlot("Select the bookmark to move", target.file);
+        if (from === undefined || !isBookmarkDefined(target.file.bookmarks[ from ])) {
+            return;
+        }
+
+        const to = await pickSlot(`Select the new number for Bookmark ${getSlotName(from)}`, target.file, from);
+        if (to === undefined) {
+            return;
+        }
+
+        moveSlot(target.controller, target.file, from, to);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.swapBookmarks", async (slotA?: number | string, slotB?: number | string, uri?: string) => {
+        const target = getFileForCommand(uri);
+        if (!target) {
+            return;
+        }
+
+        const a = slotA !== undefined ? parseSlot(slotA) : await pickSlot("Select the first bookmark to swap", target.file);
+        if (a === undefined) {
+            return;
+        }
+
+        const b = slotB !== undefined ? parseSlot(slotB) : await pickSlot(`Select the bookmark to swap with Bookmark ${getSlotName(a)}`, target.file, a);
+        if (b === undefined || a === b) {
+            return;
+        }
+
+        swapSlots(getFilesSharingSlots(target.controller, target.file), a, b);
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.renumberBookmarks", (uri?: string) => {
+        const target = getFileForCommand(uri);
+        if (!target) {
+            return;
+        }
+
+        if (!compactSlots(getFilesSharingSlots(target.controller, target.file))) {
+            vscode.window.showInformationMessage("The bookmarks are already numbered in sequence");
+            return;
+        }
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.clearBookmark", async (slot?: number | string, uri?: string) => {
+        const target = getFileForCommand(uri);
+        if (!target) {
+            return;
+        }
+
+        const n = slot !== undefined ? parseSlot(slot) : await pickSlot("Select the bookmark to clear", target.file);
+        if (n === undefined) {
+            return;
+        }
+
+        clearBookmark(target.file, n);
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.statusBar.pickSlot", async () => {
+        if (!activeController) {
+            return;
+        }
+
+        // just like the status bar itself, there is no current file without an editor
+        const editor = activeEditor;
+        const currentFile = editor ? activeFile : undefined;
+        // in a notebook, only the bookmarks of the active cell can be read from its editor
+        const documentFile = currentFile ? getDocumentFile(currentFile, editor.document) : undefined;
+
+        const items = [];
+        for (const n of getSlotsInKeyboardOrder()) {
+            if (isSlotDefinedInFile(documentFile, n)) {
+                const bookmark = documentFile.bookmarks[ n ];
+                const lineText = bookmark.line < editor.document.lineCount ? editor.document.lineAt(bookmark.line).text.trim() : "";
+                items.push({
+                    label: `${getSlotGlyph(n, true)} ${getLabel(bookmark) || lineText}`,
+                    description: "(Ln " + (bookmark.line + 1).toString() + ", Col " + (bookmark.column + 1).toString() + ")",
+                    file: currentFile,
+                    bookmark
+                });
+                continue;
+            }
+
+            // other cells of the notebook, then other files
+            const file = isSlotDefinedInFile(currentFile, n) 
+                ? currentFile 
+                : activeController.files.find(element => element !== currentFile && isSlotDefinedInFile(element, n));
+            if (file) {
+                const bookmark = file.bookmarks[ n ];
+                items.push({
+                    label: `${getSlotGlyph(n, false)} ${getLabel(bookmark) || ""}`,
+                    description: "(Ln " + (bookmark.line + 1).toString() + ", Col " + (bookmark.column + 1).toString() + ")",
+                    detail: vscode.workspace.asRelativePath(getFileUri(activeController, file)),
+                    file,
+                    bookmark
+                });
+            }
+        }
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: "Select the bookmark to jump to",
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selection) {
+            return;
+        }
+
+        await recordJump(() => selection.file === currentFile
+            ? revealBookmark(selection.bookmark)
+            : revealBookmarkInDocument(selection.bookmark, getFileUri(activeController, selection.file)));
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.clear", () => {
+        // in multi-root there is no active file (nor controller) until an editor is opened
+        if (!activeFile) {
+            return;
+        }
+        clearSlots(activeFile);
+        
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.clearFromAllFiles", async () => {
+        
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        for (const file of controller.files) {
+            clearSlots(file);
+        }
+
+        saveWorkspaceState();
+        updateDecorations();
+
+        if (await vscode.window.showInformationMessage("The bookmarks were cleared from all files", "Undo") === "Undo") {
+            vscode.commands.executeCommand("numberedBookmarks.undo");
+        }
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.clearFromAllFolders", async () => {
+        for (const controller of controllers) {
+            for (const file of controller.files) {
+                clearSlots(file);
+            }
+        }
+
+        saveWorkspaceState();
+        updateDecorations();
+
+        if (await vscode.window.showInformationMessage("The bookmarks were cleared from all folders", "Undo") === "Undo") {
+            vscode.commands.executeCommand("numberedBookmarks.undo");
+        }
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.undo", () => {
+        const changes = bookmarkJournal.undo(takeJournalSnapshot());
+        if (!changes) {
+            vscode.window.showInformationMessage("No bookmark changes to undo");
+            return;
+        }
+        applyChanges(changes);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.redo", () => {
+        const changes = bookmarkJournal.redo(takeJournalSnapshot());
+        if (!changes) {
+            vscode.window.showInformationMessage("No bookmark changes to redo");
+            return;
+        }
+        applyChanges(changes);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.restoreClearedBookmarks", async () => {
+        const removed = bookmarkJournal.removed;
+        if (removed.length === 0) {
+            vscode.window.showInformationMessage("No cleared bookmarks to restore");
+            return;
+        }
+
+        const items = removed.map(element => ({
+            label: element.text || "(empty line)",
+            description: `Bookmark ${getSlotName(element.slot)}`,
+            detail: `${vscode.workspace.asRelativePath(Uri.parse(element.uri))} (Ln ${element.bookmark.line + 1}) - cleared at ${new Date(element.time).toLocaleTimeString()}`,
+            removed: element
+        }));
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: "Select the bookmarks to restore",
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (!selection || selection.length === 0) {
+            return;
+        }
+
+        for (const item of selection) {
+            const uri = Uri.parse(item.removed.uri);
+            const found = findFileForUri(uri);
+            const file = found ? found.file : addDocument(getControllerForUri(uri), uri);
+            ensureSlots(file);
+            file.bookmarks[ item.removed.slot ] = { ...item.removed.bookmark };
+            bookmarkJournal.forget(item.removed);
+        }
+
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.sideBar.refresh", () => bookmarkProvider.refresh());
+
+    vscode.commands.registerCommand("numberedBookmarks.sideBar.jump", async (node: BookmarkNode) => {
+        await recordJump(() => revealBookmarkInDocument(node.bookmark, node.uri));
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.sideBar.clearSlot", (node: BookmarkNode) => {
+        node.file.bookmarks[ node.slot ] = NO_BOOKMARK_DEFINED;
+
+        saveWorkspaceState();
+        updateDecorations();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.sideBar.reassignSlot", async (node: BookmarkNode) => {
+        const n = await pickSlot(`Select the new number for Bookmark ${getSlotName(node.slot)}`, node.file, node.slot);
+        if (n === undefined) {
+            return;
+        }
+
+        moveSlot(node.controller, node.file, node.slot, n);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.createBookmarkSet", async () => {
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        const name = await askBookmarkSetName(controller, "Type the name of the new Bookmark Set");
+        if (!name) {
+            return;
+        }
+
+        createSet(controller, name);
+        didChangeBookmarkSet();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.switchBookmarkSet", async () => {
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        const name = await pickBookmarkSet(controller, "Select the Bookmark Set to switch to");
+        if (!name) {
+            return;
+        }
+
+        switchToSet(controller, name);
+        didChangeBookmarkSet();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.renameBookmarkSet", async () => {
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        const oldName = await pickBookmarkSet(controller, "Select the Bookmark Set to rename");
+        if (!oldName) {
+            return;
+        }
+
+        const newName = await askBookmarkSetName(controller, `Type the new name of the "${oldName}" Bookmark Set`, oldName);
+        if (!newName || newName === oldName) {
+            return;
+        }
+
+        renameSet(controller, oldName, newName);
+        didChangeBookmarkSet();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.duplicateBookmarkSet", async () => {
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        const source = await pickBookmarkSet(controller, "Select the Bookmark Set to duplicate");
+        if (!source) {
+            return;
+        }
+
+        const name = await askBookmarkSetName(controller, `Type the name of the copy of "${source}" Bookmark Set`);
+        if (!name) {
+            return;
+        }
+
+        duplicateSet(controller, source, name);
+        didChangeBookmarkSet();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.deleteBookmarkSet", async () => {
+        const controller = await pickController(controllers, activeController);
+        if (!controller) {
+            return
+        }
+
+        if (listSetNames(controller).length === 1) {
+            vscode.window.showInformationMessage("There is only one Bookmark Set");
+            return;
+        }
+
+        const name = await pickBookmarkSet(controller, "Select the Bookmark Set to delete");
+        if (!name) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(`Are you sure you want to delete the "${name}" Bookmark Set?`, { modal: true }, "Delete");
+        if (confirm !== "Delete") {
+            return;
+        }
+
+        deleteSet(controller, name);
+        didChangeBookmarkSet();
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.goBack", async () => {
+        const location = jumpHistory.goBack(getCurrentLocation());
+        if (!location) {
+            vscode.window.showInformationMessage("No previous position in the jump history");
+            return;
+        }
+        await revealLocation(location);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.goForward", async () => {
+        const location = jumpHistory.goForward(getCurrentLocation());
+        if (!location) {
+            vscode.window.showInformationMessage("No next position in the jump history");
+            return;
+        }
+        await revealLocation(location);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.showJumpHistory", async () => {
+        if (!jumpHistory.canGoBack) {
+            vscode.window.showInformationMessage("The jump history is empty");
+            return;
+        }
+
+        const items = jumpHistory.entries.map(location => {
+            const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === location.uri.toString());
+            const line = location.range.start.line;
+            return {
+                label: document && line < document.lineCount ? document.lineAt(line).text.trim() : getBasename(location.uri),
+                description: "(Ln " + (line + 1).toString() + ", Col " + (location.range.start.character + 1).toString() + ")",
+                detail: vscode.workspace.asRelativePath(location.uri),
+                location
+            };
+        });
+
+        const selection = await vscode.window.showQuickPick(items, {
+            placeHolder: "Select the position to go back to",
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+        if (selection) {
+            await recordJump(() => revealLocation(selection.location));
+        }
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.exportBookmarks", async () => {
+        const includeLineText = await vscode.window.showQuickPick([ "Yes", "No" ], {
+            placeHolder: "Include the line contents, so bookmarks can be relocated if the files differ when imported?"
+        });
+        if (!includeLineText) {
+            return;
+        }
+
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.workspace.workspaceFolders 
+                ? vscode.Uri.joinPath(vscode.workspace.workspaceFolders[ 0 ].uri, "numbered-bookmarks-export.json") 
+                : undefined,
+            filters: { "JSON": [ "json" ] }
+        });
+        if (!uri) {
+            return;
+        }
+
+        const portable = await exportBookmarks(controllers, includeLineText === "Yes");
+        await writeTextFile(uri, JSON.stringify(portable, null, "\t"));
+        vscode.window.showInformationMessage(`Bookmarks exported to ${vscode.workspace.asRelativePath(uri)}`);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.exportBookmarksAsMarkdown", async () => {
+        const portable = await exportBookmarks(controllers, true);
+        const document = await vscode.workspace.openTextDocument({
+            language: "markdown",
+            content: exportBookmarksAsMarkdown(portable)
+        });
+        await vscode.window.showTextDocument(document);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.importBookmarks", async () => {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            filters: { "JSON": [ "json" ] }
+        });
+        if (!uris || uris.length === 0) {
+            return;
+        }
+
+        let portable;
+        try {
+            portable = JSON.parse(await readTextFile(uris[ 0 ]));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Can't read ${uris[ 0 ].fsPath}: ${error.message}`);
+            return;
+        }
+        if (!isPortableDocument(portable)) {
+            vscode.window.showErrorMessage("The selected file is not a Numbered Bookmarks export");
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick([
+            { label: "Merge", description: "Keep the current bookmarks, replacing only the imported numbers", mode: ImportMode.Merge },
+            { label: "Replace", description: "Clear the current bookmarks before importing", mode: ImportMode.Replace }
+        ], { placeHolder: "How should the bookmarks be imported?" });
+        if (!mode) {
+            return;
+        }
+
+        try {
+            const count = await importBookmarks(controllers, activeController || controllers[ 0 ], portable, mode.mode);
+            vscode.window.showInformationMessage(`${count} bookmark(s) imported`);
+        } catch (error) {
+            vscode.window.showErrorMessage(error.message);
+        }
+
+        // even on errors, whatever has been imported must be saved and displayed
+        didChangeFiles();
     });
 
-    vscode.commands.registerCommand("numberedBookmarks.clearFromAllFiles", async () => {
-        
+    vscode.commands.registerCommand("numberedBookmarks.copyBookmarksFromBranch", async () => {
+        if (!vscode.workspace.getConfiguration("numberedBookmarks").get("saveBookmarksPerBranch", false)) {
+            vscode.window.showInformationMessage("Enable the \"numberedBookmarks.saveBookmarksPerBranch\" setting to keep the bookmarks of each branch");
+            return;
+        }
+
         const controller = await pickController(controllers, activeController);
         if (!controller) {
             return
         }
 
-        for (const file of controller.files) {
-            clearBookmarks(file);
+        const branches = listBranchNames(controller);
+        if (branches.length === 0) {
+            vscode.window.showInformationMessage("No other branch has bookmarks");
+            return;
+        }
+
+        const branch = await vscode.window.showQuickPick(branches, {
+            placeHolder: `Select the branch to copy the bookmarks to "${getActiveBranchName(controller)}"`
+        });
+        if (!branch) {
+            return;
+        }
+
+        const mode = await vscode.window.showQuickPick([
+            { label: "Merge", description: "Keep the current bookmarks, replacing only the copied numbers", replace: false },
+            { label: "Replace", description: "Clear the current bookmarks before copying", replace: true }
+        ], { placeHolder: "How should the bookmarks be copied?" });
+        if (!mode) {
+            return;
         }
 
+        const count = copyFromBranch(controller, branch, mode.replace);
+
+        // unlike a checkout, the copy can be undone
+        if (activeEditor && controller === activeController) {
+            activeFile = addDocument(activeController, getDocumentUri(activeEditor.document.uri));
+        }
         saveWorkspaceState();
         updateDecorations();
+        vscode.window.showInformationMessage(`${count} bookmark(s) copied from "${branch}"`);
+    });
+
+    vscode.commands.registerCommand("numberedBookmarks.pruneMissingFiles", async () => {
+        const removed: string[] = [];
+        for (const controller of controllers) {
+            // iterate over a copy, because files are removed along the way
+            for (const file of [ ...controller.files ]) {
+                const uri = getFileUri(controller, file);
+                // Untitled documents only exist while they are open
+                const exists = isUntitled(uri)
+                    ? vscode.workspace.textDocuments.some(document => document.uri.toString() === uri.toString())
+                    : await fileExists(uri);
+                if (exists) {
+                    continue;
+                }
+                removeFile(controller, file);
+                removed.push(vscode.workspace.asRelativePath(uri));
+            }
+        }
+
+        if (removed.length === 0) {
+            vscode.window.showInformationMessage("No missing files found");
+            return;
+        }
+
+        didChangeFiles();
+        vscode.window.showInformationMessage(`Removed bookmarks from ${removed.length} missing file(s): ${removed.join(", ")}`);
     });
 
     vscode.commands.registerCommand("numberedBookmarks.list", () => {
+        const editor = vscode.window.activeTextEditor;
+        // in a notebook, only the bookmarks of the active cell
+        const documentFile = editor && activeFile ? getDocumentFile(activeFile, editor.document) : undefined;
+
         // no bookmark
-        if (!hasBookmarks(activeFile)) {
+        if (!documentFile || !hasBookmarks(documentFile)) {
             vscode.window.showInformationMessage("No Bookmarks found");
             return;
         }
 
         // push the items
         const items: vscode.QuickPickItem[] = [];
-        for (const bookmark of activeFile.bookmarks) {
+        for (const bookmark of documentFile.bookmarks) {
             if (isBookmarkDefined(bookmark)) {
                 const bookmarkLine = bookmark.line + 1;
                 const bookmarkColumn = bookmark.column + 1;
-                const lineText = vscode.window.activeTextEditor.document.lineAt(bookmarkLine - 1).text.trim();
+                const lineText = bookmark.line < editor.document.lineCount ? editor.document.lineAt(bookmark.line).text.trim() : "";
                 items.push({
-                    label: lineText,
+                    label: getLabel(bookmark) || lineText,
                     description: "(Ln " + bookmarkLine.toString() + ", Col " +
-                        bookmarkColumn.toString() + ")"
+                        bookmarkColumn.toString() + ")",
+                    detail: getLabel(bookmark) ? lineText : undefined
                 });
             }
         }
 
         // pick one
-        const currentLine: number = vscode.window.activeTextEditor.selection.active.line + 1;
+        const currentLine: number = editor.selection.active.line + 1;
         const options = <vscode.QuickPickOptions> {
             placeHolder: "Type a line number or a piece of code to navigate to",
             matchOnDescription: true,
@@ -237,6 +1093,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     // tslint:disable-next-line:prefer-for-of
                     for (let indexInside = 0; indexInside < element.length; indexInside++) {
                         const elementInside = element[ indexInside ];
+                        elementInside.label = getLabelFromPosition(controller.files[ index ], elementInside.description) || elementInside.label;
 
                         if (activeTextEditor && 
                             elementInside.detail.toString().toLocaleLowerCase() === getRelativePath(controller.workspaceFolder?.uri?.path, activeTextEditor.document.uri.path).toLocaleLowerCase()) {
@@ -334,7 +1191,7 @@ export async function activate(context: vscode.ExtensionContext) {
                             return;
                         } else {
                             vscode.workspace.openTextDocument(activeTextEditor.document.uri).then(doc => {
-                                vscode.window.showTextDocument(doc).then(editor => {
+                                vscode.window.showTextDocument(doc).then(() => {
                                     revealLine(currentLine - 1);
                                     return;
                                 });
@@ -357,17 +1214,195 @@ export async function activate(context: vscode.ExtensionContext) {
         );
     });
 
-    function getActiveController(document: TextDocument): void {
-        // system files don't have workspace, so use the first one [0]
-        if (!vscode.workspace.getWorkspaceFolder(document.uri)) {
-            activeController = controllers[0];
+    vscode.commands.registerCommand("numberedBookmarks.listFromAllFolders", async () => {
+        if (!controllers.some(controller => controller.files.some(file => hasBookmarks(file)))) {
+            vscode.window.showInformationMessage("No Bookmarks found");
+            return;
+        }
+
+        const origin = getCurrentLocation();
+        const selection = await pickFromAllFolders(controllers, {
+            preview: item => previewPositionInDocument({ line: item.bookmark.line + 1, column: item.bookmark.column + 1 }, item.uri),
+            remove: item => {
+                item.file.bookmarks[ item.slot ] = NO_BOOKMARK_DEFINED;
+                saveWorkspaceState();
+                updateDecorations();
+            },
+            reassign: (item, slot) => moveSlot(item.controller, item.file, item.slot, slot)
+        });
+
+        // the preview moved away, so go back to where it was
+        if (!selection) {
+            if (origin) {
+                await revealLocation(origin);
+            }
+            return;
+        }
+
+        await revealBookmarkInDocument(selection.bookmark, selection.uri);
+        if (origin && !isSameLocation(origin, getCurrentLocation())) {
+            jumpHistory.push(origin);
+        }
+    });
+
+    function findFileForUri(uri: Uri): ControllerFile | undefined {
+        for (const controller of controllers) {
+            for (const file of controller.files) {
+                if (isSameDocument(getFileUri(controller, file), getDocumentUri(uri))) {
+                    return { controller, file };
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // only the bookmarks of the document itself (a single cell, in notebooks)
+    function findFileForDocument(uri: Uri): File | undefined {
+        const found = findFileForUri(uri);
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        return found && document ? getDocumentFile(found.file, document) : found?.file;
+    }
+
+    function findBookmarkedFile(uri: Uri): ControllerFile | undefined {
+        const found = findFileForUri(uri);
+        return found && hasBookmarks(found.file) ? found : undefined;
+    }
+
+    function getEditorForDocument(document: TextDocument): vscode.TextEditor | undefined {
+        return vscode.window.visibleTextEditors.find(editor => editor.document === document);
+    }
+
+    function relocateBookmarksInDocument(document: TextDocument): void {
+        const found = findBookmarkedFile(document.uri);
+        if (!found) {
+            return;
+        }
+
+        const documentFile = getDocumentFile(found.file, document);
+        const changed = relocateBookmarks(documentFile, document);
+        syncDocumentFile(found.file, documentFile, document);
+        if (changed) {
+            saveWorkspaceState(false);
+            updateDecorations();
+        }
+    }
+
+    function hasUntitledBookmarks(): boolean {
+        return controllers.some(controller => controller.files.some(file => 
+            isUntitled(getFileUri(controller, file)) && hasBookmarks(file)));
+    }
+
+    function moveBookmarkedFile(from: ControllerFile, newUri: Uri): void {
+        const target = moveFile(from, getControllerForUri(newUri) || from.controller, newUri);
+        if (target && from.file === activeFile) {
+            activeFile = target;
+        }
+    }
+
+    function didChangeFiles(): void {
+        // the active document may have been moved/deleted
+        if (activeEditor && activeFile && activeController.files.indexOf(activeFile) < 0) {
+            activeFile = addDocument(activeController, getDocumentUri(activeEditor.document.uri));
+        }
+
+        bookmarkJournal.reset(takeJournalSnapshot());
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    async function reloadProjectFile(controller: Controller): Promise<void> {
+        if (resolvingConflicts.has(controller)) {
+            return;
+        }
+
+        // the event may come from one of our own writes, while a newer one is still pending
+        await whenProjectBookmarksSaved(controller.workspaceFolder);
+
+        // a broken file (like a hand edit in progress) is ignored until it is fixed
+        const loaded = await loadProjectBookmarks(controller.workspaceFolder);
+        if (!loaded || isSavingProjectBookmarks(controller.workspaceFolder)) {
+            return;
+        }
+
+        const theirs = takeSnapshot(loaded.controller);
+        const base = projectFileBases.get(controller);
+
+        // our own save, or nothing that matters has changed (but the other sets)
+        if (isSameSnapshot(takeSnapshot(controller), theirs)) {
+            projectFileBases.set(controller, theirs);
+            applyProjectSets(controller, loaded);
             return;
         }
 
+        // nothing changed here since the last sync, so just take theirs
+        if (isSameSnapshot(takeSnapshot(controller), base)) {
+            applySnapshot(controller, theirs);
+            applyProjectSets(controller, loaded);
+            projectFileBases.set(controller, theirs);
+            bookmarkJournal.reset(takeJournalSnapshot());
+            saveWorkspaceState();
+            updateDecorations();
+            return;
+        }
+
+        resolvingConflicts.add(controller);
+        const choice = await vscode.window.showWarningMessage(
+            `The bookmarks of "${controller.workspaceFolder.name}" were changed outside this window, but you have also changed them.`, 
+            "Merge", "Keep Mine", "Take Theirs");
+        resolvingConflicts.delete(controller);
+
+        switch (choice) {
+            case "Merge": {
+                const result = mergeSnapshots(base, takeSnapshot(controller), theirs);
+                applySnapshot(controller, result.snapshot);
+                if (result.conflicts > 0) {
+                    vscode.window.showInformationMessage(`${result.conflicts} bookmark(s) were changed on both sides, and your version was kept`);
+                }
+                break;
+            }
+
+            case "Take Theirs":
+                applySnapshot(controller, theirs);
+                applyProjectSets(controller, loaded);
+                break;
+
+            case "Keep Mine":
+                break;
+
+            default:
+                // dismissed, so it will be asked again on the next change
+                return;
+        }
+
+        projectFileBases.set(controller, takeSnapshot(controller));
+        bookmarkJournal.reset(takeJournalSnapshot());
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    // the other sets of the project file, when it has them. Merging only merges the active ones
+    function applyProjectSets(controller: Controller, loaded: ProjectBookmarks): void {
+        if (loaded.sets) {
+            setBookmarkSets(controller, loaded.sets);
+            updateBookmarkSetStatus();
+        }
+    }
+
+    function getControllerForUri(uri: Uri): Controller {
+        // system files don't have workspace, so use the first one [0]
+        if (!vscode.workspace.getWorkspaceFolder(uri)) {
+            return controllers[0];
+        }
+
         if (controllers.length > 1) {
-            activeController = controllers.find(ctrl =>
-                ctrl.workspaceFolder.uri.path === vscode.workspace.getWorkspaceFolder(document.uri).uri.path);
+            return controllers.find(ctrl =>
+                ctrl.workspaceFolder.uri.path === vscode.workspace.getWorkspaceFolder(uri).uri.path);
         }
+        return controllers[0];
+    }
+
+    function getActiveController(document: TextDocument): void {
+        activeController = getControllerForUri(getDocumentUri(document.uri));
     }
 
     async function loadWorkspaceState(): Promise<void> {
@@ -382,21 +1417,38 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // NOT `saveBookmarksInProject`
         if (!vscode.workspace.getConfiguration("numberedBookmarks").get("saveBookmarksInProject", false)) {
-            //if (vscode.workspace.workspaceFolders.length > 1) {
-            // no matter how many workspaceFolders exists, will always load from [0] because even with 
-            // multi-root, there would be no way to load state from different folders
-            const ctrl = await loadBookmarks(vscode.workspace.workspaceFolders[0]);
-            controllers.push(ctrl);
-            activeController = ctrl;
+            // single folder, will load from [0] - as before
+            if (vscode.workspace.workspaceFolders.length === 1) {
+                const ctrl = await loadBookmarks(vscode.workspace.workspaceFolders[0]);
+                controllers.push(ctrl);
+                activeController = ctrl;
+                return;
+            }
+
+            // multi-root, each `workspaceFolder` has its own `controller` in `workspaceState`. 
+            // Bookmarks saved by older versions (all in a single `controller`) are migrated
+            if (needsMigration()) {
+                const legacy = await loadBookmarks(vscode.workspace.workspaceFolders[0]);
+                controllers = splitByFolder(legacy, vscode.workspace.workspaceFolders);
+                saveFolderBookmarks(controllers);
+            } else {
+                controllers = vscode.workspace.workspaceFolders.map(workspaceFolder => loadFolderBookmarks(workspaceFolder));
+            }
             return;
         }
 
         // `saveBookmarksInProject` TRUE
         // single or multi-root, will load from each `workspaceFolder`
         controllers = await Promise.all(
-            vscode.workspace.workspaceFolders!.map(async workspaceFolder => {
-                const ctrl = await loadBookmarks(workspaceFolder);
-                return ctrl;
+            vscode.workspace.workspaceFolders.map(async workspaceFolder => {
+                const loaded = await loadProjectBookmarks(workspaceFolder);
+                if (!loaded) {
+                    return new Controller(workspaceFolder);
+                }
+                if (loaded.sets) {
+                    setBookmarkSets(loaded.controller, loaded.sets);
+                }
+                return loaded.controller;
             })
         );
         if (controllers.length === 1) {
@@ -404,53 +1456,215 @@ export async function activate(context: vscode.ExtensionContext) {
         }
     }
 
-    function saveWorkspaceState(): void {
+    // bookmarks that just followed the edits (`journalMoves` false) are not recorded as changes
+    function saveWorkspaceState(journalMoves = true): void {
+        bookmarkJournal.commit(takeJournalSnapshot(), journalMoves, getLineText);
+        bookmarkProvider.refresh();
+        bookmarkCodeLensProvider.refresh();
+        onDidChangeBookmarks.fire();
+
         // no workspace, there is only one `controller`, and will always be from `workspaceState`
         if (!vscode.workspace.workspaceFolders) {
             saveBookmarks(activeController);
             return;
         }
 
-        // NOT `saveBookmarksInProject`, will load from `workspaceFolders[0]` - as before
+        // NOT `saveBookmarksInProject`
         if (!vscode.workspace.getConfiguration("numberedBookmarks").get("saveBookmarksInProject", false)) {
-            // no matter how many workspaceFolders exists, will always save to [0] because even with
-            // multi-root, there would be no way to save state to different folders
-            saveBookmarks(activeController);
+            // single folder, will save to [0] - as before
+            if (vscode.workspace.workspaceFolders.length === 1) {
+                saveBookmarks(activeController);
+                return;
+            }
+
+            // multi-root, will save each `workspaceFolder` to `workspaceState`
+            saveFolderBookmarks(controllers);
             return;
         }
 
         // `saveBookmarksInProject` TRUE
         // single or multi-root, will save to each `workspaceFolder` 
         controllers.forEach(controller => {
-            saveBookmarks(controller);
+            projectFileBases.set(controller, takeSnapshot(controller));
+            saveProjectBookmarks(controller);
         });
     }
 
-    function toggleBookmark(n: number, position: vscode.Position) {
+    function takeJournalSnapshot(): JournalSnapshot {
+        const snapshot: JournalSnapshot = new Map();
+        controllers.forEach(controller => takeSnapshot(controller).forEach((bookmarks, uri) => snapshot.set(uri, bookmarks)));
+        return snapshot;
+    }
+
+    // the line may be already gone, so its anchor is the best source
+    function getLineText(uri: string, bookmark: Bookmark): string {
+        const anchored = <AnchoredBookmark> bookmark;
+        if (anchored.anchor) {
+            return anchored.anchor.text;
+        }
+        const document = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri);
+        return document && bookmark.line < document.lineCount ? document.lineAt(bookmark.line).text.trim() : "";
+    }
+
+    function applyChanges(changes: BookmarkChange[]) {
+        for (const change of changes) {
+            const uri = Uri.parse(change.uri);
+            const found = findFileForUri(uri);
+            const file = found ? found.file : addDocument(getControllerForUri(uri), uri);
+            ensureSlots(file);
+            file.bookmarks[ change.slot ] = change.after ? { ...change.after } : NO_BOOKMARK_DEFINED;
+        }
+
+        // undo/redo are not changes by themselves
+        bookmarkJournal.rebase(takeJournalSnapshot());
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    function didChangeBookmarkSet() {
+        // the `controller` files were replaced, so `activeFile` must be looked up again
+        if (activeEditor) {
+            activeFile = addDocument(activeController, getDocumentUri(activeEditor.document.uri));
+        } else {
+            activeFile = undefined;
+        }
+
+        updateBookmarkSetStatus();
+        bookmarkJournal.reset(takeJournalSnapshot());
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    async function watchHeadFile(folder: Uri): Promise<void> {
+        const head = await findHeadFile(folder);
+        if (!head) {
+            return;
+        }
+
+        const headWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(Uri.joinPath(head, ".."), "HEAD"), false, false, true);
+        headWatcher.onDidChange(() => triggerUpdateBranches(), null, context.subscriptions);
+        headWatcher.onDidCreate(() => triggerUpdateBranches(), null, context.subscriptions);
+        context.subscriptions.push(headWatcher);
+    }
+
+    // one at a time, because a single checkout may change the `HEAD` more than once
+    function triggerUpdateBranches() {
+        branchUpdate = branchUpdate.then(updateBranches);
+    }
+
+    async function updateBranches(): Promise<void> {
+        if (!vscode.workspace.getConfiguration("numberedBookmarks").get("saveBookmarksPerBranch", false)) {
+            return;
+        }
+
+        let changed = false;
+        for (const controller of controllers) {
+            if (!controller.workspaceFolder) {
+                continue;
+            }
+            // a detached HEAD (rebase, bisect) keeps the bookmarks of the last branch
+            const branch = await readBranch(controller.workspaceFolder.uri);
+            if (branch && switchToBranch(controller, branch)) {
+                changed = true;
+            }
+        }
+        if (changed) {
+            didChangeBookmarkSet();
+        }
+    }
+
+    function updateBookmarkSetStatus() {
+        bookmarkExplorer.description = activeController ? getActiveSetName(activeController) : undefined;
+    }
+
+    function toggleBookmark(n: number, position: vscode.Position, selections?: readonly vscode.Selection[]) {
+        if (!activeController || !vscode.window.activeTextEditor) {
+            return;
+        }
+        // fix issue emptyAtLaunch
+        if (!activeFile) {
+            activeFile = addDocument(activeController, getDocumentUri(vscode.window.activeTextEditor.document.uri));
+        }
+
+        toggleBookmarkInFile(activeController, activeFile, n, position, vscode.window.activeTextEditor.document, selections);
+    }
+
+    // if every cursor is already bookmarked, it 'removes' them, otherwise the new ones get the next free numbers
+    function toggleBookmarksAtCursors(editor: vscode.TextEditor) {
+        if (!activeController) {
+            return;
+        }
         // fix issue emptyAtLaunch
         if (!activeFile) {
-            activeController.addFile(vscode.window.activeTextEditor.document.uri); 
-            activeFile = activeController.fromUri(vscode.window.activeTextEditor.document.uri);
+            activeFile = addDocument(activeController, getDocumentUri(editor.document.uri));
+        }
+        ensureControllerSlots(activeController);
+
+        const positions: vscode.Position[] = [];
+        for (const selection of editor.selections) {
+            if (!positions.some(position => position.line === selection.active.line)) {
+                positions.push(selection.active);
+            }
+        }
+        positions.sort((a, b) => a.line - b.line);
+
+        const documentFile = getDocumentFile(activeFile, editor.document);
+        const missing = positions.filter(position => indexOfBookmark(documentFile, position.line) < 0);
+        if (missing.length === 0) {
+            positions.forEach(position => clearBookmark(activeFile, indexOfBookmark(documentFile, position.line)));
+        } else {
+            const files = getFilesSharingSlots(activeController, activeFile);
+            const free = getSlotsInKeyboardOrder().filter(slot => !files.some(file => isBookmarkDefined(file.bookmarks[ slot ])));
+            if (free.length < missing.length) {
+                vscode.window.showWarningMessage(`There are only ${free.length} Bookmark(s) available for ${missing.length} cursor(s)`);
+            }
+
+            missing.slice(0, free.length).forEach((position, index) => {
+                activeFile.bookmarks[ free[ index ] ] = {
+                    line: position.line,
+                    column: position.character
+                };
+                setBookmarkCell(activeFile.bookmarks[ free[ index ] ], editor.document);
+            });
+            updateAnchors(activeFile, editor.document);
         }
 
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    function toggleBookmarkInFile(controller: Controller, file: File, n: number, position: vscode.Position, document?: TextDocument, 
+        selections?: readonly vscode.Selection[]) {
+        ensureControllerSlots(controller);
+
         // there is another bookmark already set for this line?
-        const index: number = indexOfBookmark(activeFile, position.line);
+        const index: number = indexOfBookmark(document ? getDocumentFile(file, document) : file, position.line);
         if (index >= 0) {
-            clearBookmark(index);
+            clearBookmark(file, index);
         }
 
         // if was myself, then I want to 'remove'
         if (index !== n) {
-            activeFile.bookmarks[ n ] = {
+            file.bookmarks[ n ] = {
                 line: position.line,
                 column: position.character
             }
+            if (document) {
+                setBookmarkCell(file.bookmarks[ n ], document);
+            }
+            if (selections && vscode.workspace.getConfiguration("numberedBookmarks").get<boolean>("saveSelections", false)) {
+                saveSelections(file.bookmarks[ n ], selections);
+            }
+            if (document) {
+                updateAnchors(file, document);
+            }
 
             // when _toggling_ only "replace" differs, because it has to _invalidate_ that bookmark from other files 
             const navigateThroughAllFiles: string = vscode.workspace.getConfiguration("numberedBookmarks").get("navigateThroughAllFiles", "false");
             if (navigateThroughAllFiles === "replace") {
-                for (const element of activeController.files) {
-                    if (element.path !== activeFile.path) {
+                for (const element of controller.files) {
+                    if (element.path !== file.path) {
                         element.bookmarks[ n ] = NO_BOOKMARK_DEFINED;
                     }
                 }
@@ -461,14 +1675,118 @@ export async function activate(context: vscode.ExtensionContext) {
         updateDecorations();
     }
 
-    function clearBookmark(n: number) {
-        activeFile.bookmarks[ n ] = NO_BOOKMARK_DEFINED;
+    async function labelBookmark(n: number) {
+        if (activeFile) {
+            ensureSlots(activeFile);
+        }
+        if (!activeFile || !isBookmarkDefined(activeFile.bookmarks[ n ])) {
+            vscode.window.showInformationMessage("The Bookmark " + getSlotName(n) + " is not defined");
+            return;
+        }
+
+        if (await askLabelAndNote(n, activeFile.bookmarks[ n ])) {
+            saveWorkspaceState();
+            updateDecorations();
+        }
+    }
+
+    function getLabelFromPosition(file: File, description: string): string | undefined {
+        const point: Bookmark = parsePosition(description);
+        if (!point) {
+            return undefined;
+        }
+
+        const bookmark = file.bookmarks.find(b => b.line === point.line - 1 && b.column === point.column - 1);
+        return bookmark ? getLabel(bookmark) : undefined;
+    }
+
+    // commands from hovers and code lenses points to its document, the others to the active one
+    function getFileForCommand(uri?: string): ControllerFile | undefined {
+        if (uri) {
+            return findFileForUri(Uri.parse(uri));
+        }
+        return activeFile ? { controller: activeController, file: activeFile } : undefined;
+    }
+
+    function moveSlot(controller: Controller, file: File, from: number, to: number) {
+        ensureControllerSlots(controller);
+        file.bookmarks[ to ] = file.bookmarks[ from ];
+        file.bookmarks[ from ] = NO_BOOKMARK_DEFINED;
+
+        // when _moving_ only "replace" differs, because it has to _invalidate_ the new number from other files 
+        const navigateThroughAllFiles: string = vscode.workspace.getConfiguration("numberedBookmarks").get("navigateThroughAllFiles", "false");
+        if (navigateThroughAllFiles === "replace") {
+            for (const element of controller.files) {
+                if (element.path !== file.path) {
+                    element.bookmarks[ to ] = NO_BOOKMARK_DEFINED;
+                }
+            }
+        }
+
+        saveWorkspaceState();
+        updateDecorations();
+    }
+
+    // in "replace" mode each number exists only once in the whole controller, so reorganizing them must consider every file
+    function getFilesSharingSlots(controller: Controller, file: File): File[] {
+        const navigateThroughAllFiles: string = vscode.workspace.getConfiguration("numberedBookmarks").get("navigateThroughAllFiles", "false");
+        return navigateThroughAllFiles === "replace" ? controller.files : [ file ];
+    }
+
+    function clearBookmark(file: File, n: number) {
+        file.bookmarks[ n ] = NO_BOOKMARK_DEFINED;
+    }
+
+    // only jumps that really moved the cursor are recorded
+    async function recordJump(jump: () => Promise<void>) {
+        const origin = getCurrentLocation();
+        await jump();
+        if (origin && !isSameLocation(origin, getCurrentLocation())) {
+            jumpHistory.push(origin);
+        }
+    }
+
+    async function revealLocation(location: vscode.Location) {
+        const point: Bookmark = {
+            line: location.range.start.line,
+            column: location.range.start.character
+        };
+        if (vscode.window.activeTextEditor && vscode.window.activeTextEditor.document.uri.toString() === location.uri.toString()) {
+            revealPosition(point.line, point.column);
+        } else {
+            await revealPositionInDocument(point, location.uri);
+        }
+    }
+
+    async function jumpToNextBookmark(direction: Direction) {
+        if (!activeController) {
+            return;
+        }
+        ensureControllerSlots(activeController);
+
+        const order: NavigationOrder = vscode.workspace.getConfiguration("numberedBookmarks").get("navigationOrder", "position");
+        const cursor = {
+            file: activeEditor ? activeFile : undefined,
+            line: activeEditor ? activeEditor.selection.active.line : -1
+        };
+        const stop = findNextStop(activeController.files, getSlotsInKeyboardOrder(), order, cursor, direction);
+        if (!stop) {
+            vscode.window.showInformationMessage("No Bookmarks found");
+            return;
+        }
+
+        if (activeEditor && stop.file === activeFile) {
+            await revealBookmark(stop.bookmark);
+        } else {
+            await revealBookmarkInDocument(stop.bookmark, getFileUri(activeController, stop.file));
+        }
     }
 
     async function jumpToBookmark(n: number) {
         if (!activeFile) {
             return;
         }
+        ensureControllerSlots(activeController);
 
         // when _jumping_ each config has its own behavior 
         const navigateThroughAllFiles: string = vscode.workspace.getConfiguration("numberedBookmarks").get("navigateThroughAllFiles", "false");
@@ -481,12 +1799,12 @@ export async function activate(context: vscode.ExtensionContext) {
                     // I can start from the first because _there is only one_
                     for (const element of activeController.files) {
                         if ((element.path !== activeFile.path) && (isBookmarkDefined(element.bookmarks[ n ]))) {
-                            await revealPositionInDocument(element.bookmarks[n], activeController.getFileUri(element));
+                            await revealBookmarkInDocument(element.bookmarks[n], getFileUri(activeController, element));
                             return;
                         }
                     }
                 } else {
-                    revealPosition(activeFile.bookmarks[ n ].line, activeFile.bookmarks[ n ].column);
+                    await revealBookmark(activeFile.bookmarks[ n ]);
                 }
 
                 break;
@@ -496,7 +1814,7 @@ export async function activate(context: vscode.ExtensionContext) {
                 // this file has, and I'm not in the line
                 if ((isBookmarkDefined(activeFile.bookmarks[ n ])) &&
                     (activeFile.bookmarks[ n ].line !== vscode.window.activeTextEditor.selection.active.line)) {
-                    revealPosition(activeFile.bookmarks[ n ].line, activeFile.bookmarks[ n ].column);
+                    await revealBookmark(activeFile.bookmarks[ n ]);
                     break;
                 }
 
@@ -510,7 +1828,7 @@ export async function activate(context: vscode.ExtensionContext) {
                     const element = activeController.files[ index ];
                     if ((!found) && (element.path !== activeFile.path) && (isBookmarkDefined(element.bookmarks[ n ]))) {
                         found = true;
-                        await revealPositionInDocument(element.bookmarks[n], activeController.getFileUri(element));
+                        await revealBookmarkInDocument(element.bookmarks[n], getFileUri(activeController, element));
                         return;
                     }
                 }
@@ -520,14 +1838,14 @@ export async function activate(context: vscode.ExtensionContext) {
                         const element = activeController.files[ index ];
                         if ((!found) && (element.path !== activeFile.path) && (isBookmarkDefined(element.bookmarks[ n ]))) {
                             found = true;
-                            await revealPositionInDocument(element.bookmarks[n], activeController.getFileUri(element));
+                            await revealBookmarkInDocument(element.bookmarks[n], getFileUri(activeController, element));
                             return;
                         }
                     }
                     
                     if (!found) {
                         if (vscode.workspace.getConfiguration("numberedBookmarks").get<boolean>("showBookmarkNotDefinedWarning", false)) {
-                            vscode.window.showWarningMessage("The Bookmark " + n + " is not defined");
+                            vscode.window.showWarningMessage("The Bookmark " + getSlotName(n) + " is not defined");
                         }
                         return;
                     }
@@ -545,15 +1863,68 @@ export async function activate(context: vscode.ExtensionContext) {
 
                 if (activeFile.bookmarks[ n ].line < 0) {
                     if (vscode.workspace.getConfiguration("numberedBookmarks").get<boolean>("showBookmarkNotDefinedWarning", false)) {
-                        vscode.window.showWarningMessage("The Bookmark " + n + " is not defined");
+                        vscode.window.showWarningMessage("The Bookmark " + getSlotName(n) + " is not defined");
                     }
                     return;
                 }
 
-                revealPosition(activeFile.bookmarks[ n ].line, activeFile.bookmarks[ n ].column);
+                await revealBookmark(activeFile.bookmarks[ n ]);
 
                 break;
         }
     }
 
+    // other extensions may pass anything, so the numbers are checked just like the ones of the commands
+    function getApiSlot(slot: number): number {
+        const n = parseSlot(slot);
+        if (n === undefined) {
+            throw new Error(`Invalid bookmark number: ${slot}`);
+        }
+        return n;
+    }
+
+    return {
+        get controllers() {
+            return controllers;
+        },
+        getBookmarks(uri: Uri) {
+            const found = findFileForUri(uri);
+            return found 
+                ? found.file.bookmarks.map(bookmark => isBookmarkDefined(bookmark) ? { ...bookmark } : undefined) 
+                : [];
+        },
+        toggle(slot: number, uri?: Uri, position?: vscode.Position) {
+            const n = getApiSlot(slot);
+            const editor = vscode.window.activeTextEditor;
+            if (!uri || (editor && editor.document.uri.toString() === uri.toString())) {
+                if (!editor) {
+                    return;
+                }
+                toggleBookmark(n, position || editor.selection.active);
+                return;
+            }
+
+            const controller = getControllerForUri(uri);
+            toggleBookmarkInFile(controller, addDocument(controller, uri), n, position || new vscode.Position(0, 0), 
+                vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString()));
+        },
+        async jump(slot: number) {
+            const n = getApiSlot(slot);
+            await recordJump(() => jumpToBookmark(n));
+        },
+        clear(uri?: Uri) {
+            if (uri) {
+                const found = findFileForUri(uri);
+                if (found) {
+                    clearSlots(found.file);
+                }
+            } else {
+                controllers.forEach(controller => controller.files.forEach(file => clearSlots(file)));
+            }
+
+            saveWorkspaceState();
+            updateDecorations();
+        },
+        onDidChangeBookmarks: onDidChangeBookmarks.event
+    };
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Uri, workspace } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { ensureSlots } from "../slots/slots";
+
+export const UNTITLED_SCHEME = "untitled";
+
+// `scheme:` (at least two chars, to not be confused with Windows drives)
+const URI_PATH = /^[a-zA-Z][\w+.-]+:/;
+
+/**
+ * Documents out of the workspace folders that are not plain files (Untitled, git, virtual file systems)
+ * are saved with their full URI, because their path alone could point to another document
+ */
+export function isVirtualDocument(uri: Uri): boolean {
+    return uri.scheme !== "file" && !workspace.getWorkspaceFolder(uri);
+}
+
+export function isUntitled(uri: Uri): boolean {
+    return uri.scheme === UNTITLED_SCHEME;
+}
+
+function isVirtualFile(file: File): boolean {
+    return URI_PATH.test(file.path);
+}
+
+export function fromDocument(controller: Controller, uri: Uri): File | undefined {
+    if (!isVirtualDocument(uri)) {
+        return controller.fromUri(uri);
+    }
+    return controller.files.find(file => file.path === uri.toString());
+}
+
+export function addDocument(controller: Controller, uri: Uri): File {
+    if (!isVirtualDocument(uri)) {
+        controller.addFile(uri);
+        return controller.fromUri(uri);
+    }
+
+    let file = fromDocument(controller, uri);
+    if (!file) {
+        file = { path: uri.toString(), bookmarks: [] };
+        ensureSlots(file);
+        controller.files.push(file);
+    }
+    return file;
+}
+
+export function getFileUri(controller: Controller, file: File): Uri {
+    return isVirtualFile(file) ? Uri.parse(file.path) : controller.getFileUri(file);
+}
+
+export function isSameDocument(a: Uri, b: Uri): boolean {
+    if (isVirtualDocument(a) || isVirtualDocument(b)) {
+        return a.toString() === b.toString();
+    }
+    return a.scheme === b.scheme && a.fsPath.toLowerCase() === b.fsPath.toLowerCase();
+}
@@ -0,0 +1,95 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Uri, workspace } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { addDocument, getFileUri } from "./documentIdentity";
+
+export interface ControllerFile {
+    controller: Controller;
+    file: File;
+}
+
+function isSameUri(a: Uri, b: Uri): boolean {
+    return a.scheme === b.scheme && a.fsPath.toLowerCase() === b.fsPath.toLowerCase();
+}
+
+// the `uri` itself, or anything inside it (when it is a folder)
+export function isUriOrDescendant(uri: Uri, parent: Uri): boolean {
+    if (isSameUri(uri, parent)) {
+        return true;
+    }
+    return uri.scheme === parent.scheme && 
+        uri.path.toLowerCase().startsWith(parent.path.toLowerCase().replace(/\/$/, "") + "/");
+}
+
+// URIs always use `/`, whatever the platform (or the file system, for virtual workspaces)
+export function getBasename(uri: Uri): string {
+    return uri.path.substr(uri.path.lastIndexOf("/") + 1);
+}
+
+// the `uri` must be inside the `parent` folder
+export function getRelativeUriPath(parent: Uri, uri: Uri): string {
+    return uri.path.substr(parent.path.replace(/\/$/, "").length + 1);
+}
+
+export function rebaseUri(uri: Uri, oldParent: Uri, newParent: Uri): Uri {
+    if (isSameUri(uri, oldParent)) {
+        return newParent;
+    }
+    return newParent.with({ path: newParent.path + uri.path.substr(oldParent.path.length) });
+}
+
+export function findFiles(controllers: Controller[], parent: Uri): ControllerFile[] {
+    const found: ControllerFile[] = [];
+    for (const controller of controllers) {
+        for (const file of controller.files) {
+            if (isUriOrDescendant(getFileUri(controller, file), parent)) {
+                found.push({ controller, file });
+            }
+        }
+    }
+    return found;
+}
+
+export function removeFile(controller: Controller, file: File): void {
+    const index = controller.files.indexOf(file);
+    if (index >= 0) {
+        controller.files.splice(index, 1);
+    }
+}
+
+/**
+ * Moves the bookmarks of a file to its new location, which may belong to another controller. 
+ * Returns the (new) file, or `undefined` if it has already been moved.
+ */
+export function moveFile(from: ControllerFile, toController: Controller, newUri: Uri): File | undefined {
+    if (from.controller.files.indexOf(from.file) < 0) {
+        return undefined;
+    }
+
+    removeFile(from.controller, from.file);
+    const target = addDocument(toController, newUri);
+    target.bookmarks = from.file.bookmarks;
+    return target;
+}
+
+export async function readTextFile(uri: Uri): Promise<string> {
+    return Buffer.from(await workspace.fs.readFile(uri)).toString("utf8");
+}
+
+export async function writeTextFile(uri: Uri, text: string): Promise<void> {
+    await workspace.fs.writeFile(uri, Buffer.from(text, "utf8"));
+}
+
+export async function fileExists(uri: Uri): Promise<boolean> {
+    try {
+        await workspace.fs.stat(uri);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
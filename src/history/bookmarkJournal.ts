@@ -0,0 +1,170 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+
+const MAX_ENTRIES = 50;
+const MAX_REMOVED = 50;
+
+// The bookmarks of every `controller`, by file uri
+export type JournalSnapshot = Map<string, Bookmark[]>;
+
+// `undefined` means the slot was (or became) empty
+export interface BookmarkChange {
+    uri: string;
+    slot: number;
+    before: Bookmark | undefined;
+    after: Bookmark | undefined;
+}
+
+export interface RemovedBookmark {
+    uri: string;
+    slot: number;
+    bookmark: Bookmark;
+    text: string;
+    time: number;
+}
+
+function getBookmark(snapshot: JournalSnapshot, uri: string, slot: number): Bookmark | undefined {
+    const bookmarks = snapshot.get(uri);
+    return bookmarks && bookmarks[ slot ] && isBookmarkDefined(bookmarks[ slot ]) ? bookmarks[ slot ] : undefined;
+}
+
+function getSlotCount(a: JournalSnapshot, b: JournalSnapshot): number {
+    let count = 0;
+    a.forEach(bookmarks => count = Math.max(count, bookmarks.length));
+    b.forEach(bookmarks => count = Math.max(count, bookmarks.length));
+    return count;
+}
+
+/**
+ * Compares two snapshots, slot by slot. Bookmarks that only changed its line are
+ * considered the same when `includeMoves` is `false` (they just follow the edits).
+ */
+export function diffSnapshots(before: JournalSnapshot, after: JournalSnapshot, includeMoves: boolean): BookmarkChange[] {
+    const changes: BookmarkChange[] = [];
+    const uris = new Set([ ...before.keys(), ...after.keys() ]);
+    const count = getSlotCount(before, after);
+    for (const uri of uris) {
+        for (let slot = 0; slot < count; slot++) {
+            const a = getBookmark(before, uri, slot);
+            const b = getBookmark(after, uri, slot);
+            if (!a && !b) {
+                continue;
+            }
+            if (a && b && (!includeMoves || (a.line === b.line && a.column === b.column))) {
+                continue;
+            }
+            changes.push({ uri, slot, before: a, after: b });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Every slot must still be as the change left it (`before`), bookmarked or empty. Its line
+ * is not compared, because the bookmarks follow the edits without being a change.
+ */
+function isApplicable(changes: BookmarkChange[], current: JournalSnapshot): boolean {
+    return changes.every(change => !getBookmark(current, change.uri, change.slot) === !change.before);
+}
+
+// Works like the editor undo: a new change discards everything that could be _redone_
+export class BookmarkJournal {
+
+    private baseline: JournalSnapshot = new Map();
+    private undoStack: BookmarkChange[][] = [];
+    private redoStack: BookmarkChange[][] = [];
+    private removedBookmarks: RemovedBookmark[] = [];
+
+    public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    // most recent first
+    public get removed(): RemovedBookmark[] {
+        return [ ...this.removedBookmarks ].reverse();
+    }
+
+    // keeps the history, for the changes that are already in it (undo/redo)
+    public rebase(snapshot: JournalSnapshot): void {
+        this.baseline = snapshot;
+    }
+
+    // changes that are not made by the user (loading, switching sets, moving files) can't be undone,
+    // and the slots may no longer be the ones of the previous changes
+    public reset(snapshot: JournalSnapshot): void {
+        this.baseline = snapshot;
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    public commit(snapshot: JournalSnapshot, includeMoves: boolean, getLineText: (uri: string, bookmark: Bookmark) => string): void {
+        const changes = diffSnapshots(this.baseline, snapshot, includeMoves);
+        this.baseline = snapshot;
+        if (changes.length === 0) {
+            return;
+        }
+
+        this.undoStack.push(changes);
+        if (this.undoStack.length > MAX_ENTRIES) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+
+        for (const change of changes) {
+            if (change.before && !change.after) {
+                this.removedBookmarks.push({
+                    uri: change.uri,
+                    slot: change.slot,
+                    bookmark: change.before,
+                    text: getLineText(change.uri, change.before),
+                    time: Date.now()
+                });
+            }
+        }
+        this.removedBookmarks.splice(0, Math.max(0, this.removedBookmarks.length - MAX_REMOVED));
+    }
+
+    // the changes to be applied (with `after`) to undo the last one
+    public undo(current: JournalSnapshot): BookmarkChange[] | undefined {
+        const changes = this.undoStack.pop();
+        if (!changes) {
+            return undefined;
+        }
+        const inverted = changes.map(change => ({ ...change, before: change.after, after: change.before }));
+        if (!isApplicable(inverted, current)) {
+            this.reset(current);
+            return undefined;
+        }
+        this.redoStack.push(changes);
+        return inverted;
+    }
+
+    public redo(current: JournalSnapshot): BookmarkChange[] | undefined {
+        const changes = this.redoStack.pop();
+        if (!changes) {
+            return undefined;
+        }
+        if (!isApplicable(changes, current)) {
+            this.reset(current);
+            return undefined;
+        }
+        this.undoStack.push(changes);
+        return changes;
+    }
+
+    public forget(removed: RemovedBookmark): void {
+        const index = this.removedBookmarks.indexOf(removed);
+        if (index >= 0) {
+            this.removedBookmarks.splice(index, 1);
+        }
+    }
+}
@@ -0,0 +1,67 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Location, window } from "vscode";
+
+const MAX_HISTORY = 50;
+
+export function getCurrentLocation(): Location | undefined {
+    const editor = window.activeTextEditor;
+    if (!editor) {
+        return undefined;
+    }
+    return new Location(editor.document.uri, editor.selection.active);
+}
+
+export function isSameLocation(a: Location | undefined, b: Location | undefined): boolean {
+    if (!a || !b) {
+        return a === b;
+    }
+    return a.uri.toString() === b.uri.toString() && a.range.start.isEqual(b.range.start);
+}
+
+// Works like the browser history: a new jump discards everything that could be _forwarded_
+export class JumpHistory {
+
+    private backStack: Location[] = [];
+    private forwardStack: Location[] = [];
+
+    public get canGoBack(): boolean {
+        return this.backStack.length > 0;
+    }
+
+    public get canGoForward(): boolean {
+        return this.forwardStack.length > 0;
+    }
+
+    // most recent first
+    public get entries(): Location[] {
+        return [ ...this.backStack ].reverse();
+    }
+
+    public push(origin: Location): void {
+        this.backStack.push(origin);
+        if (this.backStack.length > MAX_HISTORY) {
+            this.backStack.shift();
+        }
+        this.forwardStack = [];
+    }
+
+    public goBack(current: Location | undefined): Location | undefined {
+        const location = this.backStack.pop();
+        if (location && current) {
+            this.forwardStack.push(current);
+        }
+        return location;
+    }
+
+    public goForward(current: Location | undefined): Location | undefined {
+        const location = this.forwardStack.pop();
+        if (location && current) {
+            this.backStack.push(current);
+        }
+        return location;
+    }
+}
@@ -0,0 +1,51 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Hover, HoverProvider, Position, TextDocument, Uri } from "vscode";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { getHoverMessage } from "../labels/labels";
+import { getSlotName } from "../slots/slots";
+import { commandLink } from "./commandLink";
+
+export class BookmarkHoverProvider implements HoverProvider {
+
+    constructor(private getFile: (uri: Uri) => File | undefined) { }
+
+    public provideHover(document: TextDocument, position: Position): Hover | undefined {
+        const file = this.getFile(document.uri);
+        if (!file) {
+            return undefined;
+        }
+
+        const slot = file.bookmarks.findIndex(bookmark => isBookmarkDefined(bookmark) && bookmark.line === position.line);
+        if (slot < 0) {
+            return undefined;
+        }
+
+        const uri = document.uri.toString();
+        const hover = getHoverMessage(slot, file.bookmarks[ slot ]);
+        hover.isTrusted = true;
+        hover.appendMarkdown("\n\n" + [
+            commandLink("Jump", "numberedBookmarks.jumpToBookmark", slot, uri),
+            commandLink("Move", "numberedBookmarks.moveBookmark", slot, uri),
+            commandLink("Clear", "numberedBookmarks.clearBookmark", slot, uri)
+        ].join(" | "));
+
+        const others: string[] = [];
+        file.bookmarks.forEach((bookmark, n) => {
+            if (n === slot || !isBookmarkDefined(bookmark) || bookmark.line >= document.lineCount) {
+                return;
+            }
+            const lineText = document.lineAt(bookmark.line).text.trim().replace(/`/g, "'");
+            others.push(`* ${commandLink(`**${getSlotName(n)}**`, "numberedBookmarks.jumpToBookmark", n, uri)} Ln ${bookmark.line + 1}: \`${lineText}\``);
+        });
+        if (others.length > 0) {
+            hover.appendMarkdown("\n\n---\n\nOther bookmarks in this file:\n\n" + others.join("\n"));
+        }
+
+        return new Hover(hover, document.lineAt(position.line).range);
+    }
+}
@@ -0,0 +1,9 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+// Markdown link that runs a command (the `MarkdownString` must be trusted)
+export function commandLink(title: string, command: string, ...args: unknown[]): string {
+    return `[${title}](command:${command}?${encodeURIComponent(JSON.stringify(args))})`;
+}
@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { ColorThemeKind, FileType, Uri, window, workspace } from "vscode";
+import { Container } from "../../vscode-numbered-bookmarks-core/src/container";
+import { readTextFile } from "../files/fileOperations";
+import { getSlotCount, getSlotName } from "../slots/slots";
+
+// the icons generated by older versions, inside the extension folder
+const STATE_SVG_VERSION = "numberedBookmarksSvgVersion";
+const LEGACY_ICON = /^bookmark\d+-\d+\.svg$/;
+
+interface IconColors {
+    fillColor?: string;
+    numberColor?: string;
+}
+
+interface ThemeIconColors {
+    light?: IconColors;
+    dark?: IconColors;
+    highContrast?: IconColors;
+}
+
+function getThemeIconColors(): IconColors {
+    const themeColors = workspace.getConfiguration("numberedBookmarks").get<ThemeIconColors>("gutterIconThemeColors", {});
+    switch (window.activeColorTheme.kind) {
+        case ColorThemeKind.Light:
+            return themeColors.light || {};
+        case ColorThemeKind.HighContrast:
+            return themeColors.highContrast || {};
+        default:
+            return themeColors.dark || {};
+    }
+}
+
+// the most specific wins: slot, then theme, then the plain setting
+function getIconColors(name: string): IconColors {
+    const config = workspace.getConfiguration("numberedBookmarks");
+    const slotColors = config.get<{ [ name: string ]: string }>("gutterIconSlotColors", {});
+    const themeColors = getThemeIconColors();
+    return {
+        fillColor: slotColors[ name ] || themeColors.fillColor || config.get<string>("gutterIconFillColor", "#00ff25"),
+        numberColor: themeColors.numberColor || config.get<string>("gutterIconNumberColor", "#000")
+    };
+}
+
+// Longer slot names need smaller fonts to fit in the gutter
+function getFontSize(name: string): number {
+    return name.length === 1 ? 9 : name.length === 2 ? 7 : 5;
+}
+
+let template: string | undefined;
+
+async function getTemplate(): Promise<string> {
+    if (!template) {
+        template = await readTextFile(Uri.joinPath(Container.context.extensionUri, "images", "bookmark.svg"));
+    }
+    return template;
+}
+
+/**
+ * The gutter icons (one per slot) are data URIs, so nothing is written to the extension folder 
+ * (which may be read only), and there are no files to clean up when the colors change
+ */
+export async function updateBookmarkIcons(): Promise<Uri[]> {
+    const svg = await getTemplate();
+    const icons: Uri[] = [];
+    for (let slot = 0; slot < getSlotCount(); slot++) {
+        const name = getSlotName(slot);
+        const colors = getIconColors(name);
+        const content = svg
+            .replace("{{gutterIconFillColor}}", colors.fillColor)
+            .replace("{{gutterIconNumberColor}}", colors.numberColor)
+            .replace("{{fontSize}}", getFontSize(name).toString())
+            .replace("{{number}}", name);
+        icons.push(Uri.parse(`data:image/svg+xml,${encodeURIComponent(content)}`));
+    }
+    return icons;
+}
+
+export async function removeLegacyIcons(): Promise<void> {
+    if (Container.context.globalState.get(STATE_SVG_VERSION) === undefined) {
+        return;
+    }
+
+    const folder = Uri.joinPath(Container.context.extensionUri, "images");
+    try {
+        for (const [ name, type ] of await workspace.fs.readDirectory(folder)) {
+            if (type === FileType.File && LEGACY_ICON.test(name)) {
+                await workspace.fs.delete(Uri.joinPath(folder, name));
+            }
+        }
+    } catch (error) {
+        // read only installs never had the icons generated anyway
+    }
+    Container.context.globalState.update(STATE_SVG_VERSION, undefined);
+}
+
+export function affectsBookmarkIcons(affectsConfiguration: (section: string) => boolean): boolean {
+    return [ "gutterIconFillColor", "gutterIconNumberColor", "gutterIconSlotColors", "gutterIconThemeColors", "slotCount" ]
+        .some(setting => affectsConfiguration(`numberedBookmarks.${setting}`));
+}
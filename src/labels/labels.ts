@@ -0,0 +1,68 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { MarkdownString, window } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { isBookmarkLost } from "../anchoring/anchors";
+import { getSlotName } from "../slots/slots";
+
+// Both are optional, so files saved by older versions still load
+export interface LabeledBookmark extends Bookmark {
+    label?: string;
+    note?: string;
+}
+
+export function getLabel(bookmark: Bookmark): string | undefined {
+    return (<LabeledBookmark> bookmark).label;
+}
+
+export function getNote(bookmark: Bookmark): string | undefined {
+    return (<LabeledBookmark> bookmark).note;
+}
+
+export function hasLabelOrNote(bookmark: Bookmark): boolean {
+    return !!getLabel(bookmark) || !!getNote(bookmark);
+}
+
+export function getHoverMessage(n: number, bookmark: Bookmark): MarkdownString {
+    const hover = new MarkdownString(undefined, true);
+    hover.appendMarkdown(`**Bookmark ${getSlotName(n)}**`);
+    if (getLabel(bookmark)) {
+        hover.appendMarkdown(": ");
+        hover.appendText(getLabel(bookmark));
+    }
+    if (getNote(bookmark)) {
+        hover.appendMarkdown("\n\n");
+        hover.appendText(getNote(bookmark));
+    }
+    if (isBookmarkLost(bookmark)) {
+        hover.appendMarkdown("\n\n$(warning) The original line could not be found after the file was changed outside the editor");
+    }
+    return hover;
+}
+
+// The InputBox is single line, so notes use a literal `\n` to break lines
+export async function askLabelAndNote(n: number, bookmark: Bookmark): Promise<boolean> {
+    const label = await window.showInputBox({
+        prompt: `Type the label for Bookmark ${getSlotName(n)} (leave empty to remove it)`,
+        value: getLabel(bookmark) || ""
+    });
+    if (label === undefined) {
+        return false;
+    }
+
+    const note = await window.showInputBox({
+        prompt: `Type the note for Bookmark ${getSlotName(n)} (use \\n to break lines, leave empty to remove it)`,
+        value: (getNote(bookmark) || "").replace(/\n/g, "\\n")
+    });
+    if (note === undefined) {
+        return false;
+    }
+
+    const labeled = <LabeledBookmark> bookmark;
+    labeled.label = label.trim() || undefined;
+    labeled.note = note.replace(/\\n/g, "\n").trim() || undefined;
+    return true;
+}
@@ -0,0 +1,91 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+
+export type NavigationOrder = "position" | "number";
+
+export type Direction = "next" | "previous";
+
+export interface BookmarkStop {
+    file: File;
+    slot: number;
+    bookmark: Bookmark;
+}
+
+export interface CursorLocation {
+    file: File | undefined;
+    line: number;
+}
+
+// stops are sorted by a key, compared item by item (there is only one bookmark per line)
+type StopKey = number[];
+
+function compareKeys(a: StopKey, b: StopKey): number {
+    for (let index = 0; index < a.length; index++) {
+        if (a[ index ] !== b[ index ]) {
+            return a[ index ] - b[ index ];
+        }
+    }
+    return 0;
+}
+
+function getStopKey(stop: BookmarkStop, files: File[], slots: number[], order: NavigationOrder): StopKey {
+    const fileIndex = files.indexOf(stop.file);
+    return order === "position"
+        ? [ fileIndex, stop.bookmark.line ]
+        : [ slots.indexOf(stop.slot), fileIndex ];
+}
+
+// by "number", the cursor only has a key when it is over a bookmark
+function getCursorKey(cursor: CursorLocation, files: File[], slots: number[], order: NavigationOrder): StopKey | undefined {
+    const fileIndex = cursor.file ? files.indexOf(cursor.file) : -1;
+    if (order === "position") {
+        return [ fileIndex, cursor.line ];
+    }
+
+    if (!cursor.file) {
+        return undefined;
+    }
+    const slot = slots.find(n => cursor.file.bookmarks[ n ] && isBookmarkDefined(cursor.file.bookmarks[ n ]) &&
+        cursor.file.bookmarks[ n ].line === cursor.line);
+    return slot !== undefined ? [ slots.indexOf(slot), fileIndex ] : undefined;
+}
+
+export function listBookmarkStops(files: File[], slots: number[], order: NavigationOrder): BookmarkStop[] {
+    const stops: BookmarkStop[] = [];
+    for (const file of files) {
+        for (const slot of slots) {
+            const bookmark = file.bookmarks[ slot ];
+            if (bookmark && isBookmarkDefined(bookmark)) {
+                stops.push({ file, slot, bookmark });
+            }
+        }
+    }
+    return stops.sort((a, b) => compareKeys(getStopKey(a, files, slots, order), getStopKey(b, files, slots, order)));
+}
+
+// wraps around, from the last bookmark to the first one (and vice versa)
+export function findNextStop(files: File[], slots: number[], order: NavigationOrder, cursor: CursorLocation, direction: Direction): BookmarkStop | undefined {
+    const stops = listBookmarkStops(files, slots, order);
+    if (stops.length === 0) {
+        return undefined;
+    }
+
+    const cursorKey = getCursorKey(cursor, files, slots, order);
+    if (direction === "next") {
+        const next = cursorKey
+            ? stops.find(stop => compareKeys(getStopKey(stop, files, slots, order), cursorKey) > 0)
+            : undefined;
+        return next || stops[ 0 ];
+    }
+
+    const previous = cursorKey
+        ? stops.slice().reverse().find(stop => compareKeys(getStopKey(stop, files, slots, order), cursorKey) < 0)
+        : undefined;
+    return previous || stops[ stops.length - 1 ];
+}
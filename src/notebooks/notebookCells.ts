@@ -0,0 +1,180 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { commands, TextDocument, Uri, workspace } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { NO_BOOKMARK_DEFINED } from "../../vscode-numbered-bookmarks-core/src/constants";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { MIN_SCORE, similarity } from "../anchoring/fingerprint";
+
+export const NOTEBOOK_CELL_SCHEME = "vscode-notebook-cell";
+
+// the first (non empty) lines of the cell are enough to tell it apart from the others
+const CELL_HEAD_LINES = 3;
+
+// The cell URIs are only valid while the notebook is open, so the bookmark stores
+// the beginning of the cell, to find it again when the notebook is reopened.
+// Cells may start alike, so its index tells them apart (and finds it if the beginning changed)
+export interface CellBookmark extends Bookmark {
+    cell?: string;
+    cellIndex?: number;
+}
+
+// which cell (URI) each bookmark was found, during this session
+const sessionCells = new WeakMap<Bookmark, string>();
+
+export function isNotebookCell(uri: Uri): boolean {
+    return uri.scheme === NOTEBOOK_CELL_SCHEME;
+}
+
+/**
+ * Every cell shares the path of its notebook, so the bookmarks are saved for the notebook itself.
+ * The notebook may be in a virtual or remote file system, so its URI comes from the open notebooks
+ * (or the workspace folder) instead of assuming a local file.
+ */
+export function getDocumentUri(uri: Uri): Uri {
+    if (!isNotebookCell(uri)) {
+        return uri;
+    }
+
+    const notebook = workspace.notebookDocuments.find(document => 
+        document.uri.path === uri.path && document.getCells().some(cell => cell.document.uri.toString() === uri.toString()));
+    if (notebook) {
+        return notebook.uri;
+    }
+
+    const workspaceFolder = (workspace.workspaceFolders || []).find(folder => uri.path.startsWith(folder.uri.path + "/"));
+    return workspaceFolder ? workspaceFolder.uri.with({ path: uri.path }) : uri.with({ scheme: "file", fragment: "" });
+}
+
+export function isSameNotebook(a: Uri, b: Uri): boolean {
+    return isNotebookCell(a) && isNotebookCell(b) && a.path === b.path;
+}
+
+export function hasCell(bookmark: Bookmark): boolean {
+    return (<CellBookmark> bookmark).cell !== undefined;
+}
+
+function getCellHead(document: TextDocument): string {
+    return document.getText()
+        .split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line.length > 0)
+        .slice(0, CELL_HEAD_LINES)
+        .join("\n");
+}
+
+function getCellIndex(document: TextDocument): number | undefined {
+    for (const notebook of workspace.notebookDocuments) {
+        const cell = notebook.getCells().find(element => element.document === document);
+        if (cell) {
+            return cell.index;
+        }
+    }
+    return undefined;
+}
+
+export function setBookmarkCell(bookmark: Bookmark, document: TextDocument): void {
+    if (!isNotebookCell(document.uri)) {
+        return;
+    }
+    (<CellBookmark> bookmark).cell = getCellHead(document);
+    (<CellBookmark> bookmark).cellIndex = getCellIndex(document);
+    sessionCells.set(bookmark, document.uri.toString());
+}
+
+function findCellDocument(notebookUri: Uri, bookmark: Bookmark): TextDocument | undefined {
+    const cells = workspace.textDocuments.filter(document => isNotebookCell(document.uri) && document.uri.path === notebookUri.path);
+
+    const sessionCell = sessionCells.get(bookmark);
+    const known = sessionCell ? cells.find(document => document.uri.toString() === sessionCell) : undefined;
+    if (known) {
+        return known;
+    }
+
+    // the most similar beginning wins, and on a tie, the cell at the same index
+    const cellIndex = (<CellBookmark> bookmark).cellIndex;
+    let best: TextDocument | undefined;
+    let bestScore = MIN_SCORE;
+    for (const document of cells) {
+        const score = similarity(getCellHead(document), (<CellBookmark> bookmark).cell);
+        if (score >= bestScore && (!best || score > bestScore || getCellIndex(document) === cellIndex)) {
+            best = document;
+            bestScore = score;
+        }
+    }
+    if (!best && cellIndex !== undefined) {
+        best = cells.find(document => getCellIndex(document) === cellIndex);
+    }
+    if (best) {
+        sessionCells.set(bookmark, best.uri.toString());
+    }
+    return best;
+}
+
+export function isBookmarkInCell(bookmark: Bookmark, document: TextDocument): boolean {
+    return isBookmarkDefined(bookmark) && hasCell(bookmark) &&
+        findCellDocument(getDocumentUri(document.uri), bookmark) === document;
+}
+
+/**
+ * The bookmarks of a notebook are all saved in the same `File`, so anything that works
+ * with a single document (decorations, sticky, anchors) must only see the bookmarks of its cell.
+ * For regular documents, it is the `File` itself.
+ */
+export function getDocumentFile(file: File, document: TextDocument): File {
+    if (!isNotebookCell(document.uri)) {
+        return file;
+    }
+
+    return {
+        path: file.path,
+        bookmarks: file.bookmarks.map(bookmark => isBookmarkInCell(bookmark, document) ? bookmark : NO_BOOKMARK_DEFINED)
+    };
+}
+
+// brings back the changes made in the bookmarks of a cell (moved, removed) to its notebook
+export function syncDocumentFile(file: File, documentFile: File, document: TextDocument): void {
+    if (documentFile === file) {
+        return;
+    }
+
+    documentFile.bookmarks.forEach((bookmark, index) => {
+        const original = file.bookmarks[ index ];
+        if (original && isBookmarkDefined(original) && sessionCells.get(original) === document.uri.toString()) {
+            if (bookmark !== original && isBookmarkDefined(bookmark)) {
+                (<CellBookmark> bookmark).cell = (<CellBookmark> original).cell;
+                (<CellBookmark> bookmark).cellIndex = (<CellBookmark> original).cellIndex;
+                sessionCells.set(bookmark, document.uri.toString());
+            }
+            file.bookmarks[ index ] = bookmark;
+        }
+    });
+}
+
+// the beginning of the cell may have been edited
+export function updateCells(documentFile: File, document: TextDocument): void {
+    if (!isNotebookCell(document.uri)) {
+        return;
+    }
+
+    for (const bookmark of documentFile.bookmarks) {
+        if (isBookmarkDefined(bookmark)) {
+            setBookmarkCell(bookmark, document);
+        }
+    }
+}
+
+// opens the notebook, if needed, so its cells are available
+export async function openCellDocument(notebookUri: Uri, bookmark: Bookmark): Promise<TextDocument | undefined> {
+    const document = findCellDocument(notebookUri, bookmark);
+    if (document) {
+        return document;
+    }
+
+    await commands.executeCommand("vscode.open", notebookUri);
+    return findCellDocument(notebookUri, bookmark);
+}
@@ -0,0 +1,199 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { QuickInputButton, QuickInputButtons, QuickPick, QuickPickItem, QuickPickItemKind, ThemeIcon, window, workspace } from "vscode";
+import { Bookmark, BookmarkQuickPickItem } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { hasBookmarks, isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { getFileUri } from "../files/documentIdentity";
+import { getLabel } from "../labels/labels";
+import { getSlotCount, getSlotName } from "../slots/slots";
+
+export interface FolderBookmarkQuickPickItem extends BookmarkQuickPickItem {
+    controller: Controller;
+    file: File;
+    slot: number;
+    bookmark: Bookmark;
+}
+
+export interface AllFoldersPickerActions {
+    preview(item: FolderBookmarkQuickPickItem): void;
+    remove(item: FolderBookmarkQuickPickItem): void;
+    reassign(item: FolderBookmarkQuickPickItem, slot: number): void;
+}
+
+interface SlotQuickPickItem extends QuickPickItem {
+    slot: number;
+}
+
+const deleteButton: QuickInputButton = { iconPath: new ThemeIcon("trash"), tooltip: "Delete Bookmark" };
+const reassignButton: QuickInputButton = { iconPath: new ThemeIcon("symbol-numeric"), tooltip: "Reassign Number" };
+
+function isBookmarkItem(item: QuickPickItem): item is FolderBookmarkQuickPickItem {
+    return (<FolderBookmarkQuickPickItem> item).bookmark !== undefined;
+}
+
+async function getLines(controller: Controller, file: File): Promise<string[]> {
+    try {
+        const document = await workspace.openTextDocument(getFileUri(controller, file));
+        return file.bookmarks.map(bookmark => isBookmarkDefined(bookmark) && bookmark.line < document.lineCount
+            ? document.lineAt(bookmark.line).text.trim()
+            : "");
+    } catch (error) {
+        // missing files are still listed, just without its contents
+        return [];
+    }
+}
+
+/**
+ * The bookmarks of every `controller`, grouped by folder (with a separator each).
+ * Folders without bookmarks are left out.
+ */
+export async function listFolderBookmarks(controllers: Controller[]): Promise<QuickPickItem[]> {
+    const items: QuickPickItem[] = [];
+    for (const controller of controllers) {
+        const folderItems: FolderBookmarkQuickPickItem[] = [];
+        for (const file of controller.files.filter(f => hasBookmarks(f))) {
+            const uri = getFileUri(controller, file);
+            const lines = await getLines(controller, file);
+            file.bookmarks.forEach((bookmark, slot) => {
+                if (!isBookmarkDefined(bookmark)) {
+                    return;
+                }
+                folderItems.push({
+                    label: `${getSlotName(slot)}: ${getLabel(bookmark) || lines[ slot ] || ""}`,
+                    description: `Ln ${bookmark.line + 1}, Col ${bookmark.column + 1}`,
+                    detail: workspace.asRelativePath(uri, false),
+                    buttons: [ reassignButton, deleteButton ],
+                    uri,
+                    controller,
+                    file,
+                    slot,
+                    bookmark
+                });
+            });
+        }
+
+        if (folderItems.length > 0) {
+            items.push({
+                label: controller.workspaceFolder ? controller.workspaceFolder.name : "No Folder",
+                kind: QuickPickItemKind.Separator
+            });
+            items.push(...folderItems);
+        }
+    }
+    return items;
+}
+
+function getSlotItems(item: FolderBookmarkQuickPickItem): SlotQuickPickItem[] {
+    const items: SlotQuickPickItem[] = [];
+    for (let slot = 0; slot < getSlotCount(); slot++) {
+        if (slot === item.slot) {
+            continue;
+        }
+        const bookmark = item.file.bookmarks[ slot ];
+        items.push({
+            label: getSlotName(slot),
+            description: bookmark && isBookmarkDefined(bookmark)
+                ? `Ln ${bookmark.line + 1}, Col ${bookmark.column + 1}`
+                : "",
+            slot
+        });
+    }
+    return items;
+}
+
+/**
+ * Lists the bookmarks of every folder at once. Each item can be deleted, or have its number
+ * reassigned, right from the picker, which is refreshed afterwards. Resolves to the accepted bookmark.
+ */
+export function pickFromAllFolders(controllers: Controller[], actions: AllFoldersPickerActions): Promise<FolderBookmarkQuickPickItem | undefined> {
+    return new Promise(resolve => {
+        const quickPick: QuickPick<QuickPickItem> = window.createQuickPick();
+        const listPlaceHolder = "Type a line number or a piece of code to navigate to";
+        quickPick.placeholder = listPlaceHolder;
+        quickPick.matchOnDescription = true;
+        quickPick.matchOnDetail = true;
+
+        // the bookmark being reassigned, while the numbers are listed (and the filter to go back to)
+        let reassigning: FolderBookmarkQuickPickItem | undefined;
+        let filter = "";
+        let accepted: FolderBookmarkQuickPickItem | undefined;
+
+        const showBookmarks = async (): Promise<void> => {
+            const value = reassigning ? filter : quickPick.value;
+            reassigning = undefined;
+            quickPick.busy = true;
+            quickPick.items = await listFolderBookmarks(controllers);
+            quickPick.value = value;
+            quickPick.buttons = [];
+            quickPick.placeholder = listPlaceHolder;
+            quickPick.busy = false;
+            // the last one was deleted
+            if (!quickPick.items.some(item => isBookmarkItem(item))) {
+                quickPick.hide();
+            }
+        };
+
+        const showSlots = (item: FolderBookmarkQuickPickItem): void => {
+            reassigning = item;
+            filter = quickPick.value;
+            quickPick.value = "";
+            quickPick.items = getSlotItems(item);
+            quickPick.buttons = [ QuickInputButtons.Back ];
+            quickPick.placeholder = `Select the new number for Bookmark ${getSlotName(item.slot)}`;
+        };
+
+        quickPick.onDidChangeActive(items => {
+            const active = items[ 0 ];
+            if (!reassigning && active && isBookmarkItem(active)) {
+                actions.preview(active);
+            }
+        });
+
+        quickPick.onDidTriggerItemButton(event => {
+            if (!isBookmarkItem(event.item)) {
+                return;
+            }
+            if (event.button === deleteButton) {
+                actions.remove(event.item);
+                showBookmarks();
+            } else if (event.button === reassignButton) {
+                showSlots(event.item);
+            }
+        });
+
+        quickPick.onDidTriggerButton(button => {
+            if (button === QuickInputButtons.Back) {
+                showBookmarks();
+            }
+        });
+
+        quickPick.onDidAccept(() => {
+            const selected = quickPick.selectedItems[ 0 ];
+            if (!selected) {
+                return;
+            }
+            if (reassigning) {
+                actions.reassign(reassigning, (<SlotQuickPickItem> selected).slot);
+                showBookmarks();
+                return;
+            }
+            if (isBookmarkItem(selected)) {
+                accepted = selected;
+                quickPick.hide();
+            }
+        });
+
+        quickPick.onDidHide(() => {
+            quickPick.dispose();
+            resolve(accepted);
+        });
+
+        quickPick.show();
+        showBookmarks();
+    });
+}
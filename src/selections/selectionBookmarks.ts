@@ -0,0 +1,100 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Position, Range, Selection, TextEditor, TextEditorRevealType, Uri, window } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { revealPosition, revealPositionInDocument } from "../../vscode-numbered-bookmarks-core/src/utils/reveal";
+import { getDocumentUri, hasCell, isBookmarkInCell, openCellDocument } from "../notebooks/notebookCells";
+
+// Lines are relative to the bookmark line, so the selections follow the bookmark when
+// lines are added or removed above it
+export interface SavedSelection {
+    anchorLine: number;
+    anchorColumn: number;
+    activeLine: number;
+    activeColumn: number;
+}
+
+// Optional, so files saved by older versions still load
+export interface SelectionBookmark extends Bookmark {
+    selections?: SavedSelection[];
+}
+
+export function hasSelections(bookmark: Bookmark): boolean {
+    const selections = (<SelectionBookmark> bookmark).selections;
+    return !!selections && selections.length > 0;
+}
+
+// a single empty selection is just the cursor, already stored in the bookmark itself
+export function saveSelections(bookmark: Bookmark, selections: readonly Selection[]): void {
+    const selectionBookmark = <SelectionBookmark> bookmark;
+    if (selections.length === 1 && selections[ 0 ].isEmpty) {
+        delete selectionBookmark.selections;
+        return;
+    }
+
+    selectionBookmark.selections = selections.map(selection => ({
+        anchorLine: selection.anchor.line - bookmark.line,
+        anchorColumn: selection.anchor.character,
+        activeLine: selection.active.line - bookmark.line,
+        activeColumn: selection.active.character
+    }));
+}
+
+export function getSelections(bookmark: Bookmark, editor: TextEditor): Selection[] {
+    if (!hasSelections(bookmark)) {
+        return [];
+    }
+
+    return (<SelectionBookmark> bookmark).selections.map(saved => {
+        const anchor = new Position(Math.max(0, bookmark.line + saved.anchorLine), saved.anchorColumn);
+        const active = new Position(Math.max(0, bookmark.line + saved.activeLine), saved.activeColumn);
+        return new Selection(editor.document.validatePosition(anchor), editor.document.validatePosition(active));
+    });
+}
+
+// only the non empty selections are highlighted, the cursors are already marked in the gutter
+export function getSelectionRanges(bookmark: Bookmark, editor: TextEditor): Range[] {
+    return getSelections(bookmark, editor).filter(selection => !selection.isEmpty);
+}
+
+function restoreSelections(bookmark: Bookmark): void {
+    const editor = window.activeTextEditor;
+    if (!editor || !hasSelections(bookmark)) {
+        return;
+    }
+
+    editor.selections = getSelections(bookmark, editor);
+    editor.revealRange(editor.selection, TextEditorRevealType.InCenterIfOutsideViewport);
+}
+
+export async function revealBookmark(bookmark: Bookmark): Promise<void> {
+    // in a notebook, the bookmark may be in another cell
+    const editor = window.activeTextEditor;
+    if (editor && hasCell(bookmark) && !isBookmarkInCell(bookmark, editor.document)) {
+        return revealBookmarkInDocument(bookmark, getDocumentUri(editor.document.uri));
+    }
+
+    revealPosition(bookmark.line, bookmark.column);
+    restoreSelections(bookmark);
+}
+
+export async function revealBookmarkInDocument(bookmark: Bookmark, uri: Uri): Promise<void> {
+    if (hasCell(bookmark)) {
+        const cell = await openCellDocument(getDocumentUri(uri), bookmark);
+        if (!cell) {
+            window.showInformationMessage("The notebook cell of this bookmark could not be found");
+            return;
+        }
+
+        const position = cell.validatePosition(new Position(bookmark.line, bookmark.column));
+        await window.showTextDocument(cell, { selection: new Range(position, position) });
+        restoreSelections(bookmark);
+        return;
+    }
+
+    await revealPositionInDocument(bookmark, uri);
+    restoreSelections(bookmark);
+}
@@ -0,0 +1,150 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { WorkspaceFolder } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { cloneFiles, readControllerState, writeControllerState } from "../storage/controllerState";
+
+const STATE_BOOKMARK_SETS = "numberedBookmarks.bookmarkSets";
+
+export const DEFAULT_SET_NAME = "Default";
+
+// The active set always lives in the `controller` itself (and is persisted by `saveBookmarks`), 
+// so only the inactive ones are stored here
+export interface BookmarkSetsState {
+    active: string;
+    sets: { [ name: string ]: File[] };
+}
+
+// The inactive sets as saved in the project file, each one just like a `controller` (paths relative to the folder)
+export interface ZippedBookmarkSets {
+    active: string;
+    sets: { [ name: string ]: unknown };
+}
+
+function readState(controller: Controller): BookmarkSetsState {
+    return readControllerState<BookmarkSetsState>(STATE_BOOKMARK_SETS, controller) || { active: DEFAULT_SET_NAME, sets: {} };
+}
+
+function writeState(controller: Controller, state: BookmarkSetsState): void {
+    writeControllerState(STATE_BOOKMARK_SETS, controller, state);
+}
+
+function replaceFiles(controller: Controller, files: File[]): void {
+    controller.files.splice(0, controller.files.length, ...cloneFiles(files));
+}
+
+// the inactive sets, detached from the workspace state (to be put aside while on another branch)
+export function getBookmarkSets(controller: Controller): BookmarkSetsState {
+    const state = readState(controller);
+    const sets: { [ name: string ]: File[] } = {};
+    Object.keys(state.sets).forEach(name => sets[ name ] = cloneFiles(state.sets[ name ]));
+    return { active: state.active, sets };
+}
+
+export function setBookmarkSets(controller: Controller, state: BookmarkSetsState): void {
+    writeState(controller, state);
+}
+
+export function zipBookmarkSets(controller: Controller): ZippedBookmarkSets {
+    const state = readState(controller);
+    const sets: { [ name: string ]: unknown } = {};
+    Object.keys(state.sets).forEach(name => {
+        const set = new Controller(controller.workspaceFolder);
+        set.files = cloneFiles(state.sets[ name ]);
+        sets[ name ] = set.zip(true);
+    });
+    return { active: state.active, sets };
+}
+
+export function isZippedBookmarkSets(object: unknown): object is ZippedBookmarkSets {
+    if (typeof object !== "object" || object === null) {
+        return false;
+    }
+    const zipped = <ZippedBookmarkSets> object;
+    return typeof zipped.active === "string" && typeof zipped.sets === "object" && zipped.sets !== null;
+}
+
+export function unzipBookmarkSets(workspaceFolder: WorkspaceFolder, zipped: ZippedBookmarkSets): BookmarkSetsState {
+    const sets: { [ name: string ]: File[] } = {};
+    Object.keys(zipped.sets).forEach(name => {
+        const set = new Controller(workspaceFolder);
+        set.loadFrom(zipped.sets[ name ], true);
+        sets[ name ] = set.files;
+    });
+    return { active: zipped.active, sets };
+}
+
+export function getActiveSetName(controller: Controller): string {
+    return readState(controller).active;
+}
+
+export function listSetNames(controller: Controller): string[] {
+    const state = readState(controller);
+    return [ state.active, ...Object.keys(state.sets) ].sort((a, b) => a.localeCompare(b));
+}
+
+export function hasSet(controller: Controller, name: string): boolean {
+    return listSetNames(controller).some(setName => setName.toLocaleLowerCase() === name.toLocaleLowerCase());
+}
+
+export function switchToSet(controller: Controller, name: string): void {
+    const state = readState(controller);
+    if (state.active === name) {
+        return;
+    }
+
+    const target = state.sets[ name ] || [];
+    state.sets[ state.active ] = cloneFiles(controller.files);
+    delete state.sets[ name ];
+    state.active = name;
+
+    replaceFiles(controller, target);
+    writeState(controller, state);
+}
+
+export function createSet(controller: Controller, name: string): void {
+    const state = readState(controller);
+    state.sets[ name ] = [];
+    writeState(controller, state);
+
+    switchToSet(controller, name);
+}
+
+export function duplicateSet(controller: Controller, source: string, name: string): void {
+    const state = readState(controller);
+    state.sets[ name ] = cloneFiles(source === state.active ? controller.files : state.sets[ source ]);
+    writeState(controller, state);
+
+    switchToSet(controller, name);
+}
+
+export function renameSet(controller: Controller, oldName: string, newName: string): void {
+    const state = readState(controller);
+    if (state.active === oldName) {
+        state.active = newName;
+    } else {
+        state.sets[ newName ] = state.sets[ oldName ];
+        delete state.sets[ oldName ];
+    }
+    writeState(controller, state);
+}
+
+export function deleteSet(controller: Controller, name: string): void {
+    const state = readState(controller);
+
+    // deleting the active one, moves to any other (or a brand new default)
+    if (state.active === name) {
+        const remaining = Object.keys(state.sets);
+        const next = remaining.length > 0 ? remaining[ 0 ] : DEFAULT_SET_NAME;
+        replaceFiles(controller, state.sets[ next ] || []);
+        delete state.sets[ next ];
+        state.active = next;
+    } else {
+        delete state.sets[ name ];
+    }
+    writeState(controller, state);
+}
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { QuickPickItem, window } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { getActiveSetName, hasSet, listSetNames } from "./bookmarkSets";
+
+export async function pickBookmarkSet(controller: Controller, placeHolder: string): Promise<string | undefined> {
+    const active = getActiveSetName(controller);
+    const items: QuickPickItem[] = listSetNames(controller).map(name => ({
+        label: name,
+        description: name === active ? "(active)" : ""
+    }));
+
+    const selection = await window.showQuickPick(items, { placeHolder });
+    return selection ? selection.label : undefined;
+}
+
+export async function askBookmarkSetName(controller: Controller, prompt: string, value?: string): Promise<string | undefined> {
+    const name = await window.showInputBox({
+        prompt,
+        value,
+        validateInput: text => {
+            if (!text.trim()) {
+                return "The name can't be empty";
+            }
+            if (text.trim() !== value && hasSet(controller, text.trim())) {
+                return `There is already a set named "${text.trim()}"`;
+            }
+            return undefined;
+        }
+    });
+    return name ? name.trim() : undefined;
+}
@@ -0,0 +1,149 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Event, EventEmitter, ThemeIcon, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri, workspace } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { hasBookmarks, isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { getLabel, getNote } from "../labels/labels";
+import { isBookmarkLost } from "../anchoring/anchors";
+import { getFileUri } from "../files/documentIdentity";
+import { getSlotName } from "../slots/slots";
+
+export enum BookmarkNodeKind {
+    NODE_CONTROLLER,
+    NODE_FILE,
+    NODE_BOOKMARK
+}
+
+export class BookmarkNode extends TreeItem {
+
+    public controller: Controller;
+    public file: File;
+    public slot: number;
+    public bookmark: Bookmark;
+
+    constructor(
+        public readonly kind: BookmarkNodeKind,
+        label: string,
+        collapsibleState: TreeItemCollapsibleState
+    ) {
+        super(label, collapsibleState);
+    }
+
+    public get uri(): Uri {
+        return getFileUri(this.controller, this.file);
+    }
+}
+
+export class BookmarkProvider implements TreeDataProvider<BookmarkNode> {
+
+    private _onDidChangeTreeData: EventEmitter<BookmarkNode | undefined> = new EventEmitter<BookmarkNode | undefined>();
+    public readonly onDidChangeTreeData: Event<BookmarkNode | undefined> = this._onDidChangeTreeData.event;
+
+    private timeout = null;
+
+    constructor(private getControllers: () => Controller[]) { }
+
+    // Debounced, because sticky updates happens on every keystroke
+    public refresh(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+        }
+        this.timeout = setTimeout(() => this._onDidChangeTreeData.fire(undefined), 300);
+    }
+
+    public getTreeItem(element: BookmarkNode): TreeItem {
+        return element;
+    }
+
+    public async getChildren(element?: BookmarkNode): Promise<BookmarkNode[]> {
+        if (!element) {
+            const controllers = this.getControllers().filter(ctrl => ctrl && ctrl.files.some(file => hasBookmarks(file)));
+            
+            // single folder (or no folder) goes straight to files
+            if (controllers.length === 1) {
+                return this.getFileNodes(controllers[0]);
+            }
+            return controllers.map(ctrl => this.getControllerNode(ctrl));
+        }
+
+        switch (element.kind) {
+            case BookmarkNodeKind.NODE_CONTROLLER:
+                return this.getFileNodes(element.controller);
+
+            case BookmarkNodeKind.NODE_FILE:
+                return this.getBookmarkNodes(element.controller, element.file);
+
+            default:
+                return [];
+        }
+    }
+
+    private getControllerNode(controller: Controller): BookmarkNode {
+        const label = controller.workspaceFolder ? controller.workspaceFolder.name : "No Folder";
+        const node = new BookmarkNode(BookmarkNodeKind.NODE_CONTROLLER, label, TreeItemCollapsibleState.Expanded);
+        node.controller = controller;
+        node.iconPath = ThemeIcon.Folder;
+        node.resourceUri = controller.workspaceFolder?.uri;
+        node.contextValue = "NumberedBookmarkFolder";
+        return node;
+    }
+
+    private getFileNodes(controller: Controller): BookmarkNode[] {
+        return controller.files
+            .filter(file => hasBookmarks(file))
+            .map(file => {
+                const node = new BookmarkNode(BookmarkNodeKind.NODE_FILE, undefined, TreeItemCollapsibleState.Expanded);
+                node.controller = controller;
+                node.file = file;
+                node.resourceUri = node.uri;
+                node.description = workspace.asRelativePath(node.uri, false);
+                node.iconPath = ThemeIcon.File;
+                node.contextValue = "NumberedBookmarkFile";
+                return node;
+            });
+    }
+
+    private async getBookmarkNodes(controller: Controller, file: File): Promise<BookmarkNode[]> {
+        const uri = getFileUri(controller, file);
+        let lines: string[] = [];
+        try {
+            const document = await workspace.openTextDocument(uri);
+            lines = file.bookmarks.map(bookmark => isBookmarkDefined(bookmark) && bookmark.line < document.lineCount
+                ? document.lineAt(bookmark.line).text.trim()
+                : "");
+        } catch (error) {
+            // missing files are still listed, just without its contents
+        }
+
+        const nodes: BookmarkNode[] = [];
+        file.bookmarks.forEach((bookmark, slot) => {
+            if (!isBookmarkDefined(bookmark)) {
+                return;
+            }
+
+            const node = new BookmarkNode(BookmarkNodeKind.NODE_BOOKMARK, `${getSlotName(slot)}: ${getLabel(bookmark) || lines[ slot ] || ""}`, TreeItemCollapsibleState.None);
+            node.controller = controller;
+            node.file = file;
+            node.slot = slot;
+            node.bookmark = bookmark;
+            node.description = `Ln ${bookmark.line + 1}, Col ${bookmark.column + 1}`;
+            node.tooltip = getNote(bookmark) 
+                ? `Bookmark ${getSlotName(slot)} (${node.description})\n\n${getNote(bookmark)}` 
+                : `Bookmark ${getSlotName(slot)} (${node.description})`;
+            node.iconPath = new ThemeIcon(isBookmarkLost(bookmark) ? "warning" : "bookmark");
+            node.contextValue = "NumberedBookmark";
+            node.command = {
+                command: "numberedBookmarks.sideBar.jump",
+                title: "Jump to Bookmark",
+                arguments: [ node ]
+            };
+            nodes.push(node);
+        });
+        return nodes;
+    }
+}
@@ -0,0 +1,114 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { QuickPickItem, window, workspace } from "vscode";
+import { MAX_BOOKMARKS, NO_BOOKMARK_DEFINED } from "../../vscode-numbered-bookmarks-core/src/constants";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+
+// 0-9 and A-Z
+export const MAX_SLOTS = 36;
+
+export function getSlotCount(): number {
+    const count = workspace.getConfiguration("numberedBookmarks").get<number>("slotCount", MAX_BOOKMARKS);
+    return Math.min(Math.max(count, MAX_BOOKMARKS), MAX_SLOTS);
+}
+
+export function getSlotName(slot: number): string {
+    return slot.toString(36).toUpperCase();
+}
+
+// 0 comes after 9, just like in the keyboard
+export function getSlotsInKeyboardOrder(): number[] {
+    const slots: number[] = [];
+    for (let n = 1; n < getSlotCount(); n++) {
+        slots.push(n);
+        if (n === 9) {
+            slots.push(0);
+        }
+    }
+    return slots;
+}
+
+// accepts the slot as a number (`12` or `"12"`) or as its name (`"C"`), anything else (`"1.5"`, `"1x"`) is invalid
+export function parseSlot(slot: number | string): number | undefined {
+    const text = typeof slot === "string" ? slot.trim() : "";
+    let n: number | undefined;
+    if (typeof slot === "number") {
+        n = slot;
+    } else if (/^\d+$/.test(text)) {
+        n = parseInt(text, 10);
+    } else if (/^[a-z]$/i.test(text)) {
+        n = parseInt(text, 36);
+    }
+    if (n === undefined || !Number.isInteger(n) || n < 0 || n >= getSlotCount()) {
+        return undefined;
+    }
+    return n;
+}
+
+// files saved with fewer slots (or by older versions) are padded with undefined bookmarks
+export function ensureSlots(file: File, count = getSlotCount()): void {
+    while (file.bookmarks.length < count) {
+        file.bookmarks.push(NO_BOOKMARK_DEFINED);
+    }
+}
+
+export function ensureControllerSlots(controller: Controller): void {
+    const count = getSlotCount();
+    controller.files.forEach(file => ensureSlots(file, count));
+}
+
+export function clearSlots(file: File): void {
+    for (let index = 0; index < file.bookmarks.length; index++) {
+        file.bookmarks[ index ] = NO_BOOKMARK_DEFINED;
+    }
+}
+
+export function swapSlots(files: File[], a: number, b: number): void {
+    for (const file of files) {
+        ensureSlots(file);
+        const bookmark = file.bookmarks[ a ];
+        file.bookmarks[ a ] = file.bookmarks[ b ];
+        file.bookmarks[ b ] = bookmark;
+    }
+}
+
+// the defined slots (in any of the files) are moved to 1..N, keeping their order
+export function compactSlots(files: File[]): boolean {
+    const order = getSlotsInKeyboardOrder();
+    const defined = order.filter(slot => files.some(file => file.bookmarks[ slot ] && isBookmarkDefined(file.bookmarks[ slot ])));
+    if (defined.every((slot, index) => slot === order[ index ])) {
+        return false;
+    }
+
+    for (const file of files) {
+        ensureSlots(file);
+        const bookmarks = file.bookmarks.slice();
+        order.forEach(slot => file.bookmarks[ slot ] = NO_BOOKMARK_DEFINED);
+        defined.forEach((slot, index) => file.bookmarks[ order[ index ] ] = bookmarks[ slot ]);
+    }
+    return true;
+}
+
+export async function pickSlot(placeHolder: string, file?: File, exclude?: number): Promise<number | undefined> {
+    const items: QuickPickItem[] = [];
+    for (let slot = 0; slot < getSlotCount(); slot++) {
+        if (slot === exclude) {
+            continue;
+        }
+        const bookmark = file ? file.bookmarks[ slot ] : undefined;
+        items.push({
+            label: getSlotName(slot),
+            description: bookmark && isBookmarkDefined(bookmark) 
+                ? `Ln ${bookmark.line + 1}, Col ${bookmark.column + 1}` 
+                : ""
+        });
+    }
+
+    const selection = await window.showQuickPick(items, { placeHolder });
+    return selection ? parseSlot(selection.label) : undefined;
+}
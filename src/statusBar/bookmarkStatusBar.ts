@@ -0,0 +1,76 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Disposable, StatusBarAlignment, StatusBarItem, window, workspace } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { getSlotName, getSlotsInKeyboardOrder } from "../slots/slots";
+
+// Filled glyphs (❶) for slots in the current file, outlined (①) for slots in other files
+export function getSlotGlyph(slot: number, inCurrentFile: boolean): string {
+    if (slot === 0) {
+        return inCurrentFile ? "⓿" : "⓪";
+    }
+    if (slot <= 9) {
+        return String.fromCodePoint((inCurrentFile ? 0x2776 : 0x2460) + slot - 1);
+    }
+    return String.fromCodePoint((inCurrentFile ? 0x1F150 : 0x24B6) + slot - 10);
+}
+
+export function isSlotDefinedInFile(file: File | undefined, slot: number): boolean {
+    return !!file && !!file.bookmarks[ slot ] && isBookmarkDefined(file.bookmarks[ slot ]);
+}
+
+export function isSlotDefinedInOtherFiles(controller: Controller | undefined, file: File | undefined, slot: number): boolean {
+    return !!controller && controller.files.some(element => element !== file && isSlotDefinedInFile(element, slot));
+}
+
+export class BookmarkStatusBar implements Disposable {
+
+    private statusBarItem: StatusBarItem;
+
+    constructor() {
+        this.statusBarItem = window.createStatusBarItem(StatusBarAlignment.Left, 0);
+        this.statusBarItem.command = "numberedBookmarks.statusBar.pickSlot";
+    }
+
+    public update(controller: Controller | undefined, file: File | undefined): void {
+        if (!workspace.getConfiguration("numberedBookmarks").get<boolean>("statusBar.visible", true) || !controller) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        const glyphs: string[] = [];
+        const current: string[] = [];
+        const others: string[] = [];
+        for (const n of getSlotsInKeyboardOrder()) {
+            if (isSlotDefinedInFile(file, n)) {
+                glyphs.push(getSlotGlyph(n, true));
+                current.push(getSlotName(n));
+            } else if (isSlotDefinedInOtherFiles(controller, file, n)) {
+                glyphs.push(getSlotGlyph(n, false));
+                others.push(getSlotName(n));
+            }
+        }
+
+        if (glyphs.length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+
+        this.statusBarItem.text = `$(bookmark) ${glyphs.join("")}`;
+        this.statusBarItem.tooltip = [
+            current.length > 0 ? `In this file: ${current.join(", ")}` : undefined,
+            others.length > 0 ? `In other files: ${others.join(", ")}` : undefined,
+            "Click to jump to a bookmark"
+        ].filter(line => line).join("\n");
+        this.statusBarItem.show();
+    }
+
+    public dispose(): void {
+        this.statusBarItem.dispose();
+    }
+}
@@ -0,0 +1,73 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { TextDocument, TextDocumentContentChangeEvent } from "vscode";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+
+function countLineBreaks(text: string): number {
+    return text.split(/\r\n|\r|\n/).length - 1;
+}
+
+function getLineDelta(change: TextDocumentContentChangeEvent): number {
+    return countLineBreaks(change.text) - (change.range.end.line - change.range.start.line);
+}
+
+// where the start of the `change` is in the (already changed) `document`
+function getChangedStartLine(changes: readonly TextDocumentContentChangeEvent[], change: TextDocumentContentChangeEvent): number {
+    return changes
+        .filter(other => other.range.end.line < change.range.start.line)
+        .reduce((line, other) => line + getLineDelta(other), change.range.start.line);
+}
+
+// the bottom ones first, so the lines of the others are not affected yet
+function compareChanges(a: TextDocumentContentChangeEvent, b: TextDocumentContentChangeEvent): number {
+    return b.range.start.line - a.range.start.line || b.range.start.character - a.range.start.character;
+}
+
+/**
+ * The sticky bookmarks for documents that are not in any editor (refactorings, workspace edits),
+ * which only depends on the changes and the `document`, never on cursors or editor options.
+ * Returns `true` if any bookmark has moved.
+ */
+export function stickyBookmarksInDocument(changes: readonly TextDocumentContentChangeEvent[], file: File, document: TextDocument): boolean {
+    let updated = false;
+    for (const change of [ ...changes ].sort(compareChanges)) {
+        const start = change.range.start;
+        const end = change.range.end;
+        const addedLines = countLineBreaks(change.text);
+        const removedLines = end.line - start.line;
+        if (addedLines === removedLines) {
+            continue;
+        }
+
+        file.bookmarks.forEach((bookmark, index) => {
+            if (!isBookmarkDefined(bookmark) || bookmark.line < start.line) {
+                return;
+            }
+
+            let line = bookmark.line;
+            if (line > end.line) {
+                line += addedLines - removedLines;
+            } else if (line === end.line && removedLines > 0) {
+                // whatever remains of the last changed line ends up after the new text
+                line = start.line + addedLines;
+            } else if (line > start.line) {
+                // the line itself was removed
+                line = start.line;
+            } else if (removedLines === 0 && 
+                document.lineAt(getChangedStartLine(changes, change)).text.substr(0, start.character).trim() === "") {
+                // lines added above the contents of the bookmarked line
+                line += addedLines;
+            }
+
+            if (line !== bookmark.line) {
+                file.bookmarks[ index ] = { ...bookmark, line };
+                updated = true;
+            }
+        });
+    }
+    return updated;
+}
@@ -0,0 +1,36 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Container } from "../../vscode-numbered-bookmarks-core/src/container";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { File } from "../../vscode-numbered-bookmarks-core/src/file";
+
+// Extra state saved for each `controller` (by folder) under a single `workspaceState` key
+interface ControllerStateMap<T> {
+    [ key: string ]: T;
+}
+
+function getControllerKey(controller: Controller): string {
+    return controller.workspaceFolder ? controller.workspaceFolder.uri.toString() : "";
+}
+
+export function readControllerState<T>(stateKey: string, controller: Controller): T | undefined {
+    const all = Container.context.workspaceState.get<ControllerStateMap<T>>(stateKey, {});
+    return all[ getControllerKey(controller) ];
+}
+
+export function writeControllerState<T>(stateKey: string, controller: Controller, state: T): void {
+    const all = Container.context.workspaceState.get<ControllerStateMap<T>>(stateKey, {});
+    all[ getControllerKey(controller) ] = state;
+    Container.context.workspaceState.update(stateKey, all);
+}
+
+// detached from the `controller`, so later changes don't leak into the saved copy
+export function cloneFiles(files: File[]): File[] {
+    return files.map(file => <File> {
+        path: file.path,
+        bookmarks: file.bookmarks.map(bookmark => ({ ...bookmark }))
+    });
+}
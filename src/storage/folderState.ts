@@ -0,0 +1,77 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Uri, workspace, WorkspaceFolder } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { Container } from "../../vscode-numbered-bookmarks-core/src/container";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { hasBookmarks } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { addDocument, getFileUri } from "../files/documentIdentity";
+import { getRelativeUriPath } from "../files/fileOperations";
+
+const STATE_FOLDER_BOOKMARKS = "numberedBookmarks.folderBookmarks";
+
+// `path` is relative to the folder. Files outside the folder use `uri` instead
+interface FolderFileState {
+    path?: string;
+    uri?: string;
+    bookmarks: Bookmark[];
+}
+
+interface FolderBookmarksState {
+    [ folderUri: string ]: FolderFileState[];
+}
+
+function getState(): FolderBookmarksState | undefined {
+    return Container.context.workspaceState.get<FolderBookmarksState>(STATE_FOLDER_BOOKMARKS);
+}
+
+// Multi-root workspaces that still have the bookmarks of every folder in a single `controller`
+export function needsMigration(): boolean {
+    return !getState();
+}
+
+export function loadFolderBookmarks(workspaceFolder: WorkspaceFolder): Controller {
+    const controller = new Controller(workspaceFolder);
+    const files = getState()?.[ workspaceFolder.uri.toString() ] || [];
+    for (const file of files) {
+        const uri = file.uri ? Uri.parse(file.uri) : Uri.joinPath(workspaceFolder.uri, file.path);
+        addDocument(controller, uri).bookmarks = file.bookmarks;
+    }
+    return controller;
+}
+
+export function saveFolderBookmarks(controllers: Controller[]): void {
+    const state: FolderBookmarksState = {};
+    for (const controller of controllers) {
+        state[ controller.workspaceFolder.uri.toString() ] = controller.files
+            .filter(file => hasBookmarks(file))
+            .map(file => {
+                const uri = getFileUri(controller, file);
+                return workspace.getWorkspaceFolder(uri)?.uri.toString() === controller.workspaceFolder.uri.toString()
+                    ? { path: getRelativeUriPath(controller.workspaceFolder.uri, uri), bookmarks: file.bookmarks }
+                    : { uri: uri.toString(), bookmarks: file.bookmarks };
+            });
+    }
+    Container.context.workspaceState.update(STATE_FOLDER_BOOKMARKS, state);
+}
+
+/**
+ * Splits the bookmarks from a single (legacy) `controller` into one `controller` per folder.
+ * Files outside any folder stays in the first one.
+ */
+export function splitByFolder(legacy: Controller, workspaceFolders: readonly WorkspaceFolder[]): Controller[] {
+    const controllers = workspaceFolders.map(workspaceFolder => new Controller(workspaceFolder));
+    for (const file of legacy.files) {
+        if (!hasBookmarks(file)) {
+            continue;
+        }
+        const uri = getFileUri(legacy, file);
+        const folder = workspace.getWorkspaceFolder(uri);
+        const controller = (folder && controllers.find(ctrl => ctrl.workspaceFolder.uri.toString() === folder.uri.toString())) || controllers[ 0 ];
+        addDocument(controller, uri).bookmarks = file.bookmarks;
+    }
+    return controllers;
+}
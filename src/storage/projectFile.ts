@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { FileSystemError, Uri, window, workspace, WorkspaceFolder } from "vscode";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { readTextFile, writeTextFile } from "../files/fileOperations";
+import { BookmarkSetsState, isZippedBookmarkSets, unzipBookmarkSets, zipBookmarkSets } from "../sets/bookmarkSets";
+
+export const PROJECT_FILE = ".vscode/numbered-bookmarks.json";
+
+function getProjectFileUri(workspaceFolder: WorkspaceFolder): Uri {
+    return Uri.joinPath(workspaceFolder.uri, PROJECT_FILE);
+}
+
+function isFileNotFound(error: unknown): boolean {
+    return error instanceof FileSystemError && error.code === "FileNotFound";
+}
+
+// Every Bookmark Set is saved in the project file: the active one is the `controller` itself, 
+// and the others go along (older files only have the active one)
+export interface ProjectBookmarks {
+    controller: Controller;
+    sets?: BookmarkSetsState;
+}
+
+/**
+ * The project file is read and written only through `workspace.fs`, so it also works
+ * in virtual workspaces (vscode.dev, github.dev) and remotes, where there is no local disk.
+ * Returns `undefined` when the file exists but can't be read or parsed (like a broken hand edit), 
+ * so it is never mistaken for a folder without bookmarks.
+ */
+export async function loadProjectBookmarks(workspaceFolder: WorkspaceFolder): Promise<ProjectBookmarks | undefined> {
+    const controller = new Controller(workspaceFolder);
+    let sets: BookmarkSetsState | undefined;
+    try {
+        const content = JSON.parse(await readTextFile(getProjectFileUri(workspaceFolder)));
+        controller.loadFrom(content, true);
+        if (content.bookmarkSets !== undefined) {
+            if (!isZippedBookmarkSets(content.bookmarkSets)) {
+                throw new Error("the Bookmark Sets are not valid");
+            }
+            sets = unzipBookmarkSets(workspaceFolder, content.bookmarkSets);
+        }
+    } catch (error) {
+        // no file yet, just a folder without bookmarks
+        if (isFileNotFound(error)) {
+            return { controller };
+        }
+        window.showErrorMessage(`Error loading Numbered Bookmarks: ${error.message}`);
+        return undefined;
+    }
+    return { controller, sets };
+}
+
+// the writes of each folder are chained, so an older version never ends up last in the file
+const pendingWrites = new Map<string, Promise<void>>();
+
+async function writeProjectFile(workspaceFolder: WorkspaceFolder, content: string): Promise<void> {
+    try {
+        await workspace.fs.createDirectory(Uri.joinPath(workspaceFolder.uri, ".vscode"));
+        await writeTextFile(getProjectFileUri(workspaceFolder), content);
+    } catch (error) {
+        window.showErrorMessage(`Error saving Numbered Bookmarks: ${error.message}`);
+    }
+}
+
+export function saveProjectBookmarks(controller: Controller): Promise<void> {
+    const key = controller.workspaceFolder.uri.toString();
+    const content = JSON.stringify({ ...controller.zip(true), bookmarkSets: zipBookmarkSets(controller) }, null, "\t");
+    const write = (pendingWrites.get(key) || Promise.resolve()).then(() => writeProjectFile(controller.workspaceFolder, content));
+    pendingWrites.set(key, write);
+    write.then(() => {
+        if (pendingWrites.get(key) === write) {
+            pendingWrites.delete(key);
+        }
+    });
+    return write;
+}
+
+export function isSavingProjectBookmarks(workspaceFolder: WorkspaceFolder): boolean {
+    return pendingWrites.has(workspaceFolder.uri.toString());
+}
+
+// resolves when every write requested so far is done
+export function whenProjectBookmarksSaved(workspaceFolder: WorkspaceFolder): Promise<void> {
+    return pendingWrites.get(workspaceFolder.uri.toString()) || Promise.resolve();
+}
@@ -0,0 +1,112 @@
+/*---------------------------------------------------------------------------------------------
+*  Copyright (c) Alessandro Fragnani. All rights reserved.
+*  Licensed under the MIT License. See License.md in the project root for license information.
+*--------------------------------------------------------------------------------------------*/
+
+import { Uri } from "vscode";
+import { Bookmark } from "../../vscode-numbered-bookmarks-core/src/bookmark";
+import { NO_BOOKMARK_DEFINED } from "../../vscode-numbered-bookmarks-core/src/constants";
+import { Controller } from "../../vscode-numbered-bookmarks-core/src/controller";
+import { isBookmarkDefined } from "../../vscode-numbered-bookmarks-core/src/operations";
+import { addDocument, getFileUri } from "../files/documentIdentity";
+import { getLabel, getNote } from "../labels/labels";
+import { CellBookmark } from "../notebooks/notebookCells";
+import { SavedSelection, SelectionBookmark } from "../selections/selectionBookmarks";
+import { clearSlots, ensureSlots } from "../slots/slots";
+
+// The bookmarks of a `controller`, by file uri, detached from the `controller` itself
+export type BookmarksSnapshot = Map<string, Bookmark[]>;
+
+export interface MergeResult {
+    snapshot: BookmarksSnapshot;
+    conflicts: number;
+}
+
+export function takeSnapshot(controller: Controller): BookmarksSnapshot {
+    const snapshot: BookmarksSnapshot = new Map();
+    for (const file of controller.files) {
+        if (file.bookmarks.some(bookmark => isBookmarkDefined(bookmark))) {
+            snapshot.set(getFileUri(controller, file).toString(), file.bookmarks.map(bookmark => ({ ...bookmark })));
+        }
+    }
+    return snapshot;
+}
+
+function getBookmark(snapshot: BookmarksSnapshot, uri: string, slot: number): Bookmark {
+    const bookmarks = snapshot.get(uri);
+    return bookmarks && bookmarks[ slot ] && isBookmarkDefined(bookmarks[ slot ]) ? bookmarks[ slot ] : NO_BOOKMARK_DEFINED;
+}
+
+function isSameSelections(a: SavedSelection[] | undefined, b: SavedSelection[] | undefined): boolean {
+    return JSON.stringify(a || []) === JSON.stringify(b || []);
+}
+
+// a label, note, selection or cell changed is a change as well, not only the position
+function isSameBookmark(a: Bookmark, b: Bookmark): boolean {
+    return a.line === b.line && a.column === b.column &&
+        getLabel(a) === getLabel(b) &&
+        getNote(a) === getNote(b) &&
+        (<CellBookmark> a).cell === (<CellBookmark> b).cell &&
+        isSameSelections((<SelectionBookmark> a).selections, (<SelectionBookmark> b).selections);
+}
+
+function getSlotCount(...snapshots: BookmarksSnapshot[]): number {
+    let count = 0;
+    snapshots.forEach(snapshot => snapshot.forEach(bookmarks => count = Math.max(count, bookmarks.length)));
+    return count;
+}
+
+export function isSameSnapshot(a: BookmarksSnapshot, b: BookmarksSnapshot): boolean {
+    const uris = new Set([ ...a.keys(), ...b.keys() ]);
+    const count = getSlotCount(a, b);
+    for (const uri of uris) {
+        for (let slot = 0; slot < count; slot++) {
+            if (!isSameBookmark(getBookmark(a, uri, slot), getBookmark(b, uri, slot))) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Three-way merge, slot by slot: whoever changed a slot since `base` wins. When both 
+ * changed the same slot differently, it is a conflict and `mine` wins.
+ */
+export function mergeSnapshots(base: BookmarksSnapshot, mine: BookmarksSnapshot, theirs: BookmarksSnapshot): MergeResult {
+    const snapshot: BookmarksSnapshot = new Map();
+    const uris = new Set([ ...base.keys(), ...mine.keys(), ...theirs.keys() ]);
+    const count = getSlotCount(base, mine, theirs);
+    let conflicts = 0;
+
+    for (const uri of uris) {
+        const bookmarks: Bookmark[] = [];
+        for (let slot = 0; slot < count; slot++) {
+            const baseBookmark = getBookmark(base, uri, slot);
+            const mineBookmark = getBookmark(mine, uri, slot);
+            const theirsBookmark = getBookmark(theirs, uri, slot);
+
+            if (isSameBookmark(mineBookmark, baseBookmark)) {
+                bookmarks.push(theirsBookmark);
+            } else {
+                if (!isSameBookmark(theirsBookmark, baseBookmark) && !isSameBookmark(theirsBookmark, mineBookmark)) {
+                    conflicts++;
+                }
+                bookmarks.push(mineBookmark);
+            }
+        }
+        snapshot.set(uri, bookmarks);
+    }
+    return { snapshot, conflicts };
+}
+
+// Files that are not in the snapshot have its bookmarks cleared, but are kept in the `controller`
+export function applySnapshot(controller: Controller, snapshot: BookmarksSnapshot): void {
+    controller.files.forEach(file => clearSlots(file));
+    snapshot.forEach((bookmarks, uri) => {
+        const fileUri = Uri.parse(uri);
+        const file = addDocument(controller, fileUri);
+        ensureSlots(file, bookmarks.length);
+        bookmarks.forEach((bookmark, slot) => file.bookmarks[ slot ] = bookmark);
+    });
+}
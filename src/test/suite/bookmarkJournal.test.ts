@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+
+import { NO_BOOKMARK_DEFINED } from '../../../vscode-numbered-bookmarks-core/src/constants';
+import { BookmarkJournal, diffSnapshots, JournalSnapshot } from '../../history/bookmarkJournal';
+
+suite('Bookmark Journal Test Suite', () => {
+
+	const uri = 'file:///project/index.ts';
+
+	function snapshot(...lines: number[]): JournalSnapshot {
+		return new Map([ [ uri, lines.map(line => line < 0 ? NO_BOOKMARK_DEFINED : { line, column: 0 }) ] ]);
+	}
+
+	const getLineText = () => 'text';
+
+	test('Finds added and removed bookmarks', () => {
+		const changes = diffSnapshots(snapshot(1, -1), snapshot(-1, 5), true);
+		assert.equal(changes.length, 2);
+		assert.equal(changes[ 0 ].slot, 0);
+		assert.equal(changes[ 0 ].after, undefined);
+		assert.equal(changes[ 1 ].slot, 1);
+		assert.equal(changes[ 1 ].before, undefined);
+	});
+
+	test('Ignores moved bookmarks, unless asked', () => {
+		assert.equal(diffSnapshots(snapshot(1), snapshot(3), false).length, 0);
+		assert.equal(diffSnapshots(snapshot(1), snapshot(3), true).length, 1);
+	});
+
+	test('Undo and redo the last change', () => {
+		const journal = new BookmarkJournal();
+		journal.rebase(snapshot(1));
+		journal.commit(snapshot(-1), true, getLineText);
+
+		const undo = journal.undo(snapshot(-1));
+		assert.equal(undo[ 0 ].after.line, 1);
+		assert.ok(journal.canRedo);
+
+		const redo = journal.redo(snapshot(1));
+		assert.equal(redo[ 0 ].after, undefined);
+		assert.ok(!journal.canRedo);
+	});
+
+	test('A new change discards the redo', () => {
+		const journal = new BookmarkJournal();
+		journal.rebase(snapshot(1, -1));
+		journal.commit(snapshot(-1, -1), true, getLineText);
+		journal.undo(snapshot(-1, -1));
+		journal.commit(snapshot(1, 2), true, getLineText);
+		assert.ok(!journal.canRedo);
+	});
+
+	test('Changes not made by the user discard the history', () => {
+		const journal = new BookmarkJournal();
+		journal.rebase(snapshot(1));
+		journal.commit(snapshot(-1), true, getLineText);
+		journal.reset(snapshot(4));
+		assert.ok(!journal.canUndo);
+		assert.ok(!journal.canRedo);
+	});
+
+	test('Does not undo a slot that has changed since', () => {
+		const journal = new BookmarkJournal();
+		journal.rebase(snapshot(-1));
+		journal.commit(snapshot(1), true, getLineText);
+		assert.equal(journal.undo(snapshot(-1)), undefined);
+		assert.ok(!journal.canUndo);
+	});
+
+	test('Keeps the cleared bookmarks, most recent first', () => {
+		const journal = new BookmarkJournal();
+		journal.rebase(snapshot(1, 2));
+		journal.commit(snapshot(-1, 2), true, getLineText);
+		journal.commit(snapshot(-1, -1), true, getLineText);
+
+		const removed = journal.removed;
+		assert.equal(removed.length, 2);
+		assert.equal(removed[ 0 ].slot, 1);
+		assert.equal(removed[ 0 ].text, 'text');
+
+		journal.forget(removed[ 0 ]);
+		assert.equal(journal.removed.length, 1);
+	});
+});
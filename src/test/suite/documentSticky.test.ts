@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { File } from '../../../vscode-numbered-bookmarks-core/src/file';
+import { stickyBookmarksInDocument } from '../../sticky/documentSticky';
+
+suite('Document Sticky Test Suite', () => {
+
+	function file(...lines: number[]): File {
+		return { path: 'index.ts', bookmarks: lines.map(line => ({ line, column: 0 })) };
+	}
+
+	// only what the sticky reads from the changes and the document
+	function change(startLine: number, startCharacter: number, endLine: number, endCharacter: number, text: string): vscode.TextDocumentContentChangeEvent {
+		return <vscode.TextDocumentContentChangeEvent> { range: { start: { line: startLine, character: startCharacter }, end: { line: endLine, character: endCharacter } }, text };
+	}
+
+	function document(...lines: string[]): vscode.TextDocument {
+		return <vscode.TextDocument> { lineAt: (line: number) => ({ text: lines[ line ] }) };
+	}
+
+	test('Moves the bookmarks below the added lines', () => {
+		const bookmarks = file(1, 5);
+		assert.equal(stickyBookmarksInDocument([ change(3, 0, 3, 0, 'a\nb\n') ], bookmarks, document()), true);
+		assert.deepEqual(bookmarks.bookmarks.map(bookmark => bookmark.line), [ 1, 7 ]);
+	});
+
+	test('Moves the bookmark when lines are added above its contents', () => {
+		const bookmarks = file(2);
+		stickyBookmarksInDocument([ change(2, 4, 2, 4, '\n') ], bookmarks, document('', '', '    ', '    code'));
+		assert.equal(bookmarks.bookmarks[ 0 ].line, 3);
+	});
+
+	test('Keeps the bookmark when the line is split after its contents', () => {
+		const bookmarks = file(2);
+		assert.equal(stickyBookmarksInDocument([ change(2, 8, 2, 8, '\n') ], bookmarks, document('', '', '    code', '')), false);
+		assert.equal(bookmarks.bookmarks[ 0 ].line, 2);
+	});
+
+	test('Moves the bookmarks of removed lines to where they were', () => {
+		const bookmarks = file(2, 4, 6);
+		stickyBookmarksInDocument([ change(1, 0, 5, 0, '') ], bookmarks, document());
+		assert.deepEqual(bookmarks.bookmarks.map(bookmark => bookmark.line), [ 1, 1, 2 ]);
+	});
+
+	test('Applies every change', () => {
+		const bookmarks = file(0, 10);
+		stickyBookmarksInDocument([ change(5, 0, 6, 0, ''), change(1, 0, 1, 0, 'a\n') ], bookmarks, document('code', '', 'a'));
+		assert.deepEqual(bookmarks.bookmarks.map(bookmark => bookmark.line), [ 0, 10 ]);
+	});
+});
@@ -0,0 +1,45 @@
+import * as assert from 'assert';
+
+import { createFingerprint, findBestMatch, similarity } from '../../anchoring/fingerprint';
+
+suite('Fingerprint Test Suite', () => {
+
+	const lines = [
+		'import * as vscode from "vscode";',
+		'',
+		'export function activate() {',
+		'    const controllers = [];',
+		'    loadWorkspaceState();',
+		'}',
+		''
+	];
+
+	test('Similarity of identical and unrelated texts', () => {
+		assert.equal(similarity('loadWorkspaceState();', 'loadWorkspaceState();'), 1);
+		assert.equal(similarity('abc', 'xyz'), 0);
+	});
+
+	test('Keeps the line when nothing has changed', () => {
+		const fingerprint = createFingerprint(lines, 3);
+		assert.equal(findBestMatch(lines, fingerprint, 3), 3);
+	});
+
+	test('Follows the line when lines are inserted above', () => {
+		const fingerprint = createFingerprint(lines, 4);
+		const changed = [ '// header', '// comment', ...lines ];
+		assert.equal(findBestMatch(changed, fingerprint, 4), 6);
+	});
+
+	test('Finds a slightly modified line', () => {
+		const fingerprint = createFingerprint(lines, 4);
+		const changed = [ ...lines ];
+		changed[ 4 ] = '    await loadWorkspaceState();';
+		assert.equal(findBestMatch(changed, fingerprint, 4), 4);
+	});
+
+	test('Returns -1 when the line is gone', () => {
+		const fingerprint = createFingerprint(lines, 4);
+		const changed = [ 'something', 'completely', 'different' ];
+		assert.equal(findBestMatch(changed, fingerprint, 4), -1);
+	});
+});
@@ -0,0 +1,49 @@
+import * as assert from 'assert';
+
+import { NO_BOOKMARK_DEFINED } from '../../../vscode-numbered-bookmarks-core/src/constants';
+import { File } from '../../../vscode-numbered-bookmarks-core/src/file';
+import { findNextStop } from '../../navigation/sequentialNavigation';
+
+suite('Sequential Navigation Test Suite', () => {
+
+	const slots = [ 1, 2, 3, 0 ];
+
+	function createFile(path: string, lines: { [ slot: number ]: number }): File {
+		const bookmarks = [ 0, 1, 2, 3 ].map(slot => lines[ slot ] !== undefined ? { line: lines[ slot ], column: 0 } : NO_BOOKMARK_DEFINED);
+		return { path, bookmarks };
+	}
+
+	const first = createFile('first.ts', { 1: 20, 2: 5 });
+	const second = createFile('second.ts', { 0: 3, 3: 10 });
+	const files = [ first, second ];
+
+	test('By position, follows the lines of the file', () => {
+		const stop = findNextStop(files, slots, 'position', { file: first, line: 0 }, 'next');
+		assert.equal(stop.slot, 2);
+	});
+
+	test('By position, continues in the next file', () => {
+		const stop = findNextStop(files, slots, 'position', { file: first, line: 20 }, 'next');
+		assert.equal(stop.file, second);
+		assert.equal(stop.slot, 0);
+	});
+
+	test('By position, wraps around in both directions', () => {
+		assert.equal(findNextStop(files, slots, 'position', { file: second, line: 10 }, 'next').slot, 2);
+		assert.equal(findNextStop(files, slots, 'position', { file: first, line: 5 }, 'previous').slot, 3);
+	});
+
+	test('By number, follows the bookmarks from the current one', () => {
+		assert.equal(findNextStop(files, slots, 'number', { file: first, line: 5 }, 'next').slot, 3);
+		assert.equal(findNextStop(files, slots, 'number', { file: second, line: 3 }, 'previous').slot, 3);
+	});
+
+	test('By number, starts from the first when out of a bookmark', () => {
+		assert.equal(findNextStop(files, slots, 'number', { file: first, line: 100 }, 'next').slot, 1);
+		assert.equal(findNextStop(files, slots, 'number', { file: undefined, line: -1 }, 'previous').slot, 0);
+	});
+
+	test('Returns undefined when there are no bookmarks', () => {
+		assert.equal(findNextStop([ createFile('empty.ts', {}) ], slots, 'position', { file: undefined, line: -1 }, 'next'), undefined);
+	});
+});
@@ -12,7 +12,7 @@ const path = require('path');
 const TerserPlugin = require('terser-webpack-plugin');
 
 /**@type {import('webpack').Configuration}*/
-const config = {
+const nodeConfig = {
     target: 'node', // vscode extensions run in a Node.js-context 📖 -> https://webpack.js.org/configuration/node/
 
     entry: './src/extension.ts', // the entry point of this extension, 📖 -> https://webpack.js.org/configuration/entry-context/
@@ -54,4 +54,21 @@ const config = {
     },
 }
 
-module.exports = config;
+/**@type {import('webpack').Configuration}*/
+const webConfig = {
+    ...nodeConfig,
+    target: 'webworker', // extensions run in a webworker context in vscode.dev/github.dev 📖 -> https://code.visualstudio.com/api/extension-guides/web-extensions
+
+    output: { // the browser bundle is stored in 'dist/web' (check the `browser` entry in package.json)
+        path: path.resolve(__dirname, 'dist', 'web'),
+        filename: 'extension.js',
+        libraryTarget: "commonjs",
+        devtoolModuleFilenameTemplate: "../../[resource-path]",
+    },
+    resolve: { // prefer the browser version of the dependencies. `Buffer` and `path` are polyfilled by webpack
+        mainFields: ['browser', 'module', 'main'],
+        extensions: ['.ts', '.js']
+    },
+};
+
+module.exports = [ nodeConfig, webConfig ];